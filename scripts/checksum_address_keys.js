@@ -0,0 +1,66 @@
+// One-off backfill: rewrites `service_cache` and `sync_queue` rows keyed by a lowercase
+// address (written before profiles were keyed by checksummed address) to the checksummed
+// key. Where a checksummed row for the same service already exists, the older of the two is
+// deleted. Safe to run more than once; pass --dry-run to only report what would change.
+//
+//   node scripts/with-database-url.js node scripts/checksum_address_keys.js [--dry-run]
+const { PrismaClient } = require('@prisma/client');
+const { getAddress } = require('viem');
+
+const prisma = new PrismaClient();
+const dryRun = process.argv.includes('--dry-run');
+
+async function migrateTable(table, model, timestampColumn) {
+  // Only all-lowercase hex addresses whose checksummed form differs.
+  const rows = await prisma.$queryRawUnsafe(
+    `SELECT id, address, service, ${timestampColumn} AS updated_at FROM ${table} WHERE address ~ '^0x[0-9a-f]{40}$'`,
+  );
+  let rewritten = 0;
+  let deleted = 0;
+
+  for (const row of rows) {
+    const key = getAddress(row.address);
+    if (key === row.address) continue;
+
+    const existing = await model.findUnique({
+      where: { address_service: { address: key, service: row.service } },
+    });
+
+    if (!existing) {
+      if (!dryRun) await model.update({ where: { id: row.id }, data: { address: key } });
+      rewritten++;
+      continue;
+    }
+
+    // Keep whichever row was written last.
+    const existingAt = existing[timestampColumn];
+    const legacyIsNewer = row.updated_at && (!existingAt || row.updated_at > existingAt);
+    if (!dryRun) {
+      if (legacyIsNewer) {
+        await prisma.$transaction([
+          model.delete({ where: { id: existing.id } }),
+          model.update({ where: { id: row.id }, data: { address: key } }),
+        ]);
+      } else {
+        await model.delete({ where: { id: row.id } });
+      }
+    }
+    deleted++;
+  }
+
+  console.log(`${table}: ${rewritten} rows rewritten to checksummed keys, ${deleted} duplicates removed${dryRun ? ' (dry run)' : ''}.`);
+}
+
+async function main() {
+  try {
+    await migrateTable('service_cache', prisma.service_cache, 'last_updated');
+    await migrateTable('sync_queue', prisma.sync_queue, 'created_at');
+  } catch (error) {
+    console.error('Error rewriting address keys:', error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -8,9 +8,11 @@ import {
   Link,
   Skeleton,
   Image as ChakraImage,
-  Button
+  Button,
+  Input
 } from '@chakra-ui/react';
 import Image from 'next/image';
+import { toGatewayUrl } from '../lib/gateways';
 
 interface ServiceCardProps {
   data: Record<string, unknown> | null;
@@ -311,18 +313,118 @@ const ServiceCard: React.FC<ServiceCardProps> = ({
   );
 };
 
+// Text records hold either a handle or a full URL.
+const toSocialUrl = (value: string, baseUrl: string) =>
+  /^https?:\/\//i.test(value) ? value : `${baseUrl}${value.replace(/^@/, '')}`;
+
+const ENS_SOCIAL_RECORDS: Array<{ key: string; label: string; baseUrl: string }> = [
+  { key: 'com.twitter', label: 'X', baseUrl: 'https://x.com/' },
+  { key: 'com.github', label: 'GitHub', baseUrl: 'https://github.com/' },
+  { key: 'org.telegram', label: 'Telegram', baseUrl: 'https://t.me/' },
+];
+
+type ENSOwnedName = {
+  name: string;
+  expiresAt: string | null;
+  gracePeriodEndsAt: string | null;
+  wrapped: boolean;
+  registrant: string | null;
+  controller: string | null;
+  subnameCount?: number;
+};
+
+// Names expiring within this many days are highlighted; the first window is urgent.
+const ENS_EXPIRY_WARNING_DAYS = [30, 90] as const;
+
+const getExpiryInfo = (name: ENSOwnedName, now: number) => {
+  if (!name.expiresAt) return null;
+  const daysLeft = Math.floor((new Date(name.expiresAt).getTime() - now) / (1000 * 60 * 60 * 24));
+  const inGracePeriod = daysLeft < 0 && !!name.gracePeriodEndsAt && new Date(name.gracePeriodEndsAt).getTime() > now;
+  if (daysLeft < 0) {
+    return { daysLeft, label: inGracePeriod ? 'Grace period' : 'Expired', color: 'red' };
+  }
+  if (daysLeft <= ENS_EXPIRY_WARNING_DAYS[0]) return { daysLeft, label: `${daysLeft}d left`, color: 'red' };
+  if (daysLeft <= ENS_EXPIRY_WARNING_DAYS[1]) return { daysLeft, label: `${daysLeft}d left`, color: 'orange' };
+  return { daysLeft, label: `Until ${new Date(name.expiresAt).toLocaleDateString()}`, color: 'gray' };
+};
+
 const ENSContent: React.FC<{ data: Record<string, unknown> }> = ({ data }) => {
   const primaryName = data.primaryName as string | null;
+  const verified = data.verified === true;
   const avatar = data.avatar as string | null;
   const otherNames = data.otherNames as string[] | undefined;
+  const namesStatus = data.namesStatus as 'complete' | 'incomplete' | 'unavailable' | undefined;
   const profileUrl = data.profileUrl as string | undefined;
+  const texts = (data.texts as Record<string, string> | undefined) ?? {};
+  const contenthash = data.contenthash as { protocolType: string | null; decoded: string; url: string | null } | null | undefined;
+  const addresses = (data.addresses as Array<{ coin: string; label: string; address: string }> | undefined) ?? [];
+  const socials = ENS_SOCIAL_RECORDS.filter(({ key }) => texts[key]);
+  const ownedNames = (data.names as ENSOwnedName[] | undefined) ?? [];
+  const now = Date.now();
+  const expiryByName = new Map(ownedNames.map((name) => [name.name, getExpiryInfo(name, now)]));
+  const expiringSoon = ownedNames
+    .filter((name) => {
+      const expiry = expiryByName.get(name.name);
+      return expiry && expiry.color !== 'gray' && expiry.label !== 'Expired';
+    })
+    .sort((a, b) => expiryByName.get(a.name)!.daysLeft - expiryByName.get(b.name)!.daysLeft);
+  const primaryDetails = ownedNames.find((name) => name.name === primaryName);
+
+  const headerUrl = texts.header ? toGatewayUrl(texts.header) : null;
+
+  const formatAddress = (address: string) =>
+    address.length > 16 ? `${address.slice(0, 8)}…${address.slice(-6)}` : address;
 
   return (
     <VStack gap={3} align="stretch">
+      {headerUrl && (
+        <ChakraImage src={headerUrl} alt="ENS Header" maxH="80px" objectFit="cover" borderRadius="md" />
+      )}
+
+      {expiringSoon.length > 0 && (
+        <Box bg="orange.50" borderWidth="1px" borderColor="orange.200" borderRadius="md" p={2}>
+          <Text fontSize="sm" fontWeight="semibold" color="orange.700">Renew soon:</Text>
+          {expiringSoon.map((name) => {
+            const expiry = expiryByName.get(name.name)!;
+            return (
+              <HStack key={name.name} justify="space-between">
+                <Text fontSize="sm" color="gray.800">{name.name}</Text>
+                <Badge colorScheme={expiry.color} variant="subtle" fontSize="xs">{expiry.label}</Badge>
+              </HStack>
+            );
+          })}
+        </Box>
+      )}
+
       {primaryName && (
         <Box>
           <Text fontSize="sm" fontWeight="semibold" color="gray.600">Primary Name:</Text>
-          <Text fontSize="md" color="gray.800">{primaryName}</Text>
+          <HStack gap={2}>
+            <Text fontSize="md" color="gray.800">{primaryName}</Text>
+            {verified && (
+              <Badge colorScheme="green" variant="subtle" fontSize="xs" title="Primary name resolves back to this address">
+                Verified
+              </Badge>
+            )}
+          </HStack>
+          {primaryDetails && (
+            <VStack gap={0} align="stretch" mt={1}>
+              {primaryDetails.expiresAt && (
+                <Text fontSize="xs" color="gray.500">Expires {new Date(primaryDetails.expiresAt).toLocaleDateString()}</Text>
+              )}
+              {primaryDetails.wrapped && (
+                <Text fontSize="xs" color="gray.500">Wrapped (NameWrapper)</Text>
+              )}
+              {!!primaryDetails.subnameCount && (
+                <Text fontSize="xs" color="gray.500">{primaryDetails.subnameCount} subnames</Text>
+              )}
+              {primaryDetails.registrant && primaryDetails.controller && primaryDetails.registrant !== primaryDetails.controller && (
+                <Text fontSize="xs" color="gray.500" title={primaryDetails.controller}>
+                  Managed by {primaryDetails.controller.slice(0, 6)}…{primaryDetails.controller.slice(-4)}
+                </Text>
+              )}
+            </VStack>
+          )}
         </Box>
       )}
 
@@ -333,18 +435,93 @@ const ENSContent: React.FC<{ data: Record<string, unknown> }> = ({ data }) => {
         </Box>
       )}
 
+      {texts.description && (
+        <Box>
+          <Text fontSize="sm" fontWeight="semibold" color="gray.600">Description:</Text>
+          <Text fontSize="sm" color="gray.700">{texts.description}</Text>
+        </Box>
+      )}
+
+      {texts.location && (
+        <Text fontSize="sm" color="gray.600">📍 {texts.location}</Text>
+      )}
+
+      {(texts.url || texts.email || socials.length > 0) && (
+        <Box>
+          <Text fontSize="sm" fontWeight="semibold" color="gray.600">Links:</Text>
+          {texts.url && (
+            <Link href={toSocialUrl(texts.url, 'https://')} target="_blank" rel="noopener noreferrer" color="blue.500" fontSize="sm" display="block">
+              {texts.url}
+            </Link>
+          )}
+          {socials.map(({ key, label, baseUrl }) => (
+            <HStack key={key} gap={2}>
+              <Text fontSize="xs" color="gray.600">{label}:</Text>
+              <Link href={toSocialUrl(texts[key], baseUrl)} target="_blank" rel="noopener noreferrer" color="blue.500" fontSize="sm">
+                {texts[key]}
+              </Link>
+            </HStack>
+          ))}
+          {texts.email && (
+            <Link href={`mailto:${texts.email}`} color="blue.500" fontSize="sm" display="block">
+              {texts.email}
+            </Link>
+          )}
+        </Box>
+      )}
+
+      {contenthash && (
+        <Box>
+          <Text fontSize="sm" fontWeight="semibold" color="gray.600">Website ({contenthash.protocolType ?? 'contenthash'}):</Text>
+          {contenthash.url ? (
+            <Link href={contenthash.url} target="_blank" rel="noopener noreferrer" color="blue.500" fontSize="xs" fontFamily="mono" wordBreak="break-all">
+              {contenthash.decoded}
+            </Link>
+          ) : (
+            <Text fontSize="xs" color="gray.700" fontFamily="mono" wordBreak="break-all">{contenthash.decoded}</Text>
+          )}
+        </Box>
+      )}
+
+      {addresses.length > 0 && (
+        <Box>
+          <Text fontSize="sm" fontWeight="semibold" color="gray.600">Addresses:</Text>
+          {addresses.map(({ coin, label, address }) => (
+            <HStack key={coin} gap={2}>
+              <Text fontSize="xs" color="gray.600">{label}:</Text>
+              <Text fontSize="xs" color="gray.700" fontFamily="mono" title={address}>{formatAddress(address)}</Text>
+            </HStack>
+          ))}
+        </Box>
+      )}
+
       {otherNames && otherNames.length > 0 && (
         <Box>
           <Text fontSize="sm" fontWeight="semibold" color="gray.600">Other Names:</Text>
-          {otherNames.slice(0, 3).map((name, index) => (
-            <Text key={index} fontSize="sm" color="gray.700">{name}</Text>
-          ))}
+          {otherNames.slice(0, 3).map((name, index) => {
+            const expiry = expiryByName.get(name);
+            return (
+              <HStack key={index} justify="space-between">
+                <Text fontSize="sm" color="gray.700">{name}</Text>
+                {expiry && expiry.color !== 'gray' && (
+                  <Badge colorScheme={expiry.color} variant="subtle" fontSize="xs">{expiry.label}</Badge>
+                )}
+              </HStack>
+            );
+          })}
           {otherNames.length > 3 && (
-            <Text fontSize="xs" color="gray.500">+{otherNames.length - 3} more</Text>
+            <Text fontSize="xs" color="gray.500">+{otherNames.length - 3}{namesStatus === 'incomplete' ? '+' : ''} more</Text>
+          )}
+          {namesStatus === 'incomplete' && (
+            <Text fontSize="xs" color="gray.500">Name list cut short; more names may be held</Text>
           )}
         </Box>
       )}
 
+      {namesStatus === 'unavailable' && (
+        <Text fontSize="xs" color="gray.500">Other names held by this address could not be listed</Text>
+      )}
+
       {profileUrl && (
         <Link href={profileUrl} target="_blank" rel="noopener noreferrer" color="blue.500" fontSize="sm">
           View on ENS ↗
@@ -354,7 +531,150 @@ const ENSContent: React.FC<{ data: Record<string, unknown> }> = ({ data }) => {
   );
 };
 
-const FarcasterContent: React.FC<{ data: Record<string, unknown> }> = ({ data }) => {
+interface FarcasterCastItem {
+  hash: string;
+  text: string;
+  timestamp: string;
+  url: string;
+  channel: string | null;
+  embeds: Array<{ url?: string; castHash?: string }>;
+  reactions: { likes: number; recasts: number; replies: number };
+}
+
+interface FarcasterChannelItem {
+  id: string;
+  name: string;
+  imageUrl: string | null;
+  followerCount: number | null;
+  url: string;
+}
+
+interface FarcasterMutualsItem {
+  viewerAddress: string;
+  viewerFid: number | null;
+  viewerFollows: boolean;
+  followsViewer: boolean;
+  mutualFollowersListed: number;
+  sample: Array<{ fid: number; username: string }>;
+}
+
+// Collapsible section that loads `/api/services/farcaster/<resource>` the first time it is
+// opened (and again whenever `path` changes). A null path means the section needs more input.
+function FarcasterResourceSection<T>({ title, path, header, children }: {
+  title: string;
+  path: string | null;
+  header?: React.ReactNode;
+  children: (data: T) => React.ReactNode;
+}) {
+  const [open, setOpen] = React.useState(false);
+  const [loadedPath, setLoadedPath] = React.useState<string | null>(null);
+  const [result, setResult] = React.useState<{ data: T; stale: boolean } | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const loading = open && path !== null && path !== loadedPath;
+
+  React.useEffect(() => {
+    if (!open || !path || path === loadedPath) return;
+    let cancelled = false;
+    fetch(path)
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error || `Request failed (${response.status})`);
+        return body as { data: T; stale: boolean };
+      })
+      .then((body) => {
+        if (cancelled) return;
+        setResult({ data: body.data, stale: body.stale });
+        setError(null);
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        setResult(null);
+        setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedPath(path);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, path, loadedPath]);
+
+  return (
+    <Box borderTopWidth="1px" borderColor="gray.100" pt={2}>
+      <Button size="xs" variant="ghost" colorScheme="purple" onClick={() => setOpen(!open)} px={1}>
+        {open ? '▾' : '▸'} {title}
+      </Button>
+      {open && (
+        <VStack align="stretch" gap={2} mt={1}>
+          {header}
+          {loading && <Skeleton height="40px" />}
+          {!loading && error && <Text fontSize="xs" color="red.500">{error}</Text>}
+          {!loading && !error && result && path === loadedPath && (
+            <>
+              {result.stale && <Text fontSize="xs" color="orange.500">Showing cached data; refresh failed.</Text>}
+              {children(result.data)}
+            </>
+          )}
+        </VStack>
+      )}
+    </Box>
+  );
+}
+
+const FarcasterMutualsSection: React.FC<{ fid: number }> = ({ fid }) => {
+  const [input, setInput] = React.useState('');
+  const [viewer, setViewer] = React.useState<string | null>(null);
+  const path = viewer
+    ? `/api/services/farcaster/mutuals?fid=${fid}&viewer=${encodeURIComponent(viewer)}`
+    : null;
+
+  return (
+    <FarcasterResourceSection<FarcasterMutualsItem>
+      title="Mutuals with another address"
+      path={path}
+      header={
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            setViewer(input.trim() || null);
+          }}
+        >
+          <HStack gap={2}>
+            <Input size="xs" placeholder="0x… or name.eth" value={input} onChange={(event) => setInput(event.target.value)} />
+            <Button size="xs" type="submit" colorScheme="purple" disabled={!input.trim()}>
+              Compare
+            </Button>
+          </HStack>
+        </form>
+      }
+    >
+      {(mutuals) => mutuals.viewerFid === null ? (
+        <Text fontSize="xs" color="gray.500">That address has no Farcaster account.</Text>
+      ) : (
+        <VStack align="stretch" gap={1}>
+          <HStack gap={2} flexWrap="wrap">
+            <Badge colorScheme={mutuals.viewerFollows ? 'green' : 'gray'} variant="subtle" fontSize="xs">
+              {mutuals.viewerFollows ? 'Followed by them' : 'Not followed by them'}
+            </Badge>
+            <Badge colorScheme={mutuals.followsViewer ? 'green' : 'gray'} variant="subtle" fontSize="xs">
+              {mutuals.followsViewer ? 'Follows them' : 'Does not follow them'}
+            </Badge>
+          </HStack>
+          <Text fontSize="xs" color="gray.700">
+            {mutuals.mutualFollowersListed > 0 ? 'At least ' : ''}{mutuals.mutualFollowersListed.toLocaleString()} followers they also follow
+            {mutuals.sample.length > 0 && `, including ${mutuals.sample.map(({ username }) => `@${username}`).join(', ')}`}
+          </Text>
+        </VStack>
+      )}
+    </FarcasterResourceSection>
+  );
+};
+
+const FarcasterContent: React.FC<{ data: Record<string, unknown> }> = ({ data: result }) => {
+  // Every account tied to the address, primary first; the switcher picks which one is shown.
+  const accounts = Array.isArray(result.accounts) ? (result.accounts as Array<Record<string, unknown>>) : [];
+  const [selectedFid, setSelectedFid] = React.useState(result.fid as number | undefined);
+  const data = accounts.find((account) => account.fid === selectedFid) ?? result;
   const username = data.username as string | undefined;
   const farname = data.farname as string | undefined;
   const basename = data.basename as string | undefined;
@@ -367,7 +687,11 @@ const FarcasterContent: React.FC<{ data: Record<string, unknown> }> = ({ data })
   const bio = data.bio as string | undefined;
   const profileUrl = data.profileUrl as string | undefined;
   const neynarScore = data.neynarScore as number | undefined;
-  const walletAddress = data.walletAddress as string | undefined;
+  const walletAddress = result.walletAddress as string | undefined;
+  // Hubs can't look accounts up by verified address, only by custody address.
+  const fromHub = result.source === 'hub';
+  // Casts, channels and mutuals are only served by Neynar.
+  const fromNeynar = result.source === 'neynar';
   const custodyAddress = data.custodyAddress as string | undefined;
   const connectedAddresses = data.connectedAddresses as string[] | undefined;
   const verifiedAddresses = data.verifiedAddresses as Record<string, unknown> | undefined;
@@ -402,6 +726,33 @@ const FarcasterContent: React.FC<{ data: Record<string, unknown> }> = ({ data })
 
   return (
     <VStack gap={3} align="stretch">
+      {accounts.length > 1 && (
+        <Box>
+          <Text fontSize="xs" color="gray.600" mb={1}>{accounts.length} accounts use this address</Text>
+          <HStack gap={1} flexWrap="wrap">
+            {accounts.map((account) => {
+              const accountFid = account.fid as number | undefined;
+              const selected = accountFid === data.fid;
+              return (
+                <Button
+                  key={accountFid ?? String(account.username)}
+                  size="xs"
+                  variant={selected ? 'solid' : 'outline'}
+                  colorScheme="purple"
+                  onClick={() => setSelectedFid(accountFid)}
+                  title={account.relationship === 'custody' ? 'Custody address' : 'Verified address'}
+                >
+                  @{String(account.farname ?? account.username ?? accountFid)}
+                  <Badge colorScheme={account.relationship === 'custody' ? 'blue' : 'gray'} variant="subtle" fontSize="2xs" ml={1}>
+                    {account.relationship === 'custody' ? 'custody' : 'verified'}
+                  </Badge>
+                </Button>
+              );
+            })}
+          </HStack>
+        </Box>
+      )}
+
       {handle && (
         <Box>
           <Text fontSize="sm" fontWeight="semibold" color="gray.600">Farname:</Text>
@@ -609,11 +960,144 @@ const FarcasterContent: React.FC<{ data: Record<string, unknown> }> = ({ data })
         </Box>
       )}
 
+      {fid !== undefined && fromNeynar && (
+        <VStack align="stretch" gap={0}>
+          <FarcasterResourceSection<FarcasterCastItem[]> title="Recent casts" path={`/api/services/farcaster/casts?fid=${fid}`}>
+            {(casts) => casts.length === 0 ? (
+              <Text fontSize="xs" color="gray.500">No recent casts.</Text>
+            ) : (
+              casts.map((cast) => (
+                <Box key={cast.hash} p={2} bg="gray.50" borderRadius="md">
+                  <Text fontSize="xs" color="gray.800" whiteSpace="pre-wrap" lineClamp={4}>{cast.text}</Text>
+                  {cast.embeds.filter((embed) => embed.url).map((embed) => (
+                    <Link key={embed.url} href={embed.url} target="_blank" rel="noopener noreferrer" fontSize="xs" color="purple.500" display="block" truncate>
+                      {embed.url}
+                    </Link>
+                  ))}
+                  <HStack gap={3} mt={1} fontSize="xs" color="gray.500">
+                    <Text>♥ {cast.reactions.likes}</Text>
+                    <Text>⟲ {cast.reactions.recasts}</Text>
+                    <Text>💬 {cast.reactions.replies}</Text>
+                    {cast.channel && <Text>/{cast.channel}</Text>}
+                    <Link href={cast.url} target="_blank" rel="noopener noreferrer" color="purple.500" ml="auto">
+                      {cast.timestamp ? new Date(cast.timestamp).toLocaleDateString() : 'Open'} ↗
+                    </Link>
+                  </HStack>
+                </Box>
+              ))
+            )}
+          </FarcasterResourceSection>
+
+          <FarcasterResourceSection<FarcasterChannelItem[]> title="Active channels" path={`/api/services/farcaster/channels?fid=${fid}`}>
+            {(channels) => channels.length === 0 ? (
+              <Text fontSize="xs" color="gray.500">Not active in any channels.</Text>
+            ) : (
+              channels.map((channel) => (
+                <HStack key={channel.id} gap={2}>
+                  {channel.imageUrl && (
+                    <ChakraImage src={channel.imageUrl} alt={channel.name} boxSize="20px" borderRadius="full" objectFit="cover" />
+                  )}
+                  <Link href={channel.url} target="_blank" rel="noopener noreferrer" fontSize="xs" color="purple.600" truncate>
+                    /{channel.id}
+                  </Link>
+                  {channel.followerCount !== null && (
+                    <Text fontSize="xs" color="gray.500" ml="auto">{channel.followerCount.toLocaleString()} followers</Text>
+                  )}
+                </HStack>
+              ))
+            )}
+          </FarcasterResourceSection>
+
+          <FarcasterMutualsSection fid={fid} />
+        </VStack>
+      )}
+
       {profileUrl && (
         <Link href={profileUrl} target="_blank" rel="noopener noreferrer" color="purple.500" fontSize="sm">
           View on Farcaster ↗
         </Link>
       )}
+
+      {fromHub && (
+        <Text fontSize="xs" color="gray.500">
+          Read from a Farcaster hub: only the account this wallet is the custody address of is shown, not accounts that verified it.
+        </Text>
+      )}
+    </VStack>
+  );
+};
+
+interface NftListItem {
+  name: string;
+  collection: string;
+  image?: string;
+  tokenId: string;
+  contractAddress: string;
+  chain: string;
+}
+
+// Pages through `/api/nfts` one network after another, loading the next page whenever the
+// sentinel at the bottom of the list scrolls into view.
+const NftInfiniteList: React.FC<{ address: string; chains: Array<{ chain: string; label: string }> }> = ({ address, chains }) => {
+  const [items, setItems] = React.useState<NftListItem[]>([]);
+  const [position, setPosition] = React.useState<{ chainIndex: number; cursor: string | null }>({ chainIndex: 0, cursor: null });
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const sentinelRef = React.useRef<HTMLDivElement | null>(null);
+  const done = position.chainIndex >= chains.length;
+
+  const loadMore = React.useCallback(async () => {
+    if (loading || done || error) return;
+    const { chain } = chains[position.chainIndex];
+    const params = new URLSearchParams({ address, chain });
+    if (position.cursor) params.set('cursor', position.cursor);
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/nfts?${params}`);
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || `Request failed (${response.status})`);
+      setItems((previous) => [...previous, ...(body.nfts as NftListItem[])]);
+      setPosition(body.nextCursor
+        ? { chainIndex: position.chainIndex, cursor: body.nextCursor as string }
+        : { chainIndex: position.chainIndex + 1, cursor: null });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [address, chains, position, loading, done, error]);
+
+  React.useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) void loadMore();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore]);
+
+  return (
+    <VStack gap={2} align="stretch" maxH="320px" overflowY="auto">
+      {items.map((nft) => (
+        <HStack key={`${nft.chain}:${nft.contractAddress}:${nft.tokenId}`} gap={2} p={2} bg="gray.50" borderRadius="md">
+          <Box width="30px" height="30px" bg="gray.200" borderRadius="md" overflow="hidden" flexShrink={0}>
+            {nft.image && <ChakraImage src={nft.image} alt={nft.name} width="100%" height="100%" objectFit="cover" loading="lazy" />}
+          </Box>
+          <VStack align="start" gap={0} flex={1} minW={0}>
+            <Text fontSize="xs" fontWeight="semibold" color="gray.800" truncate>{nft.name}</Text>
+            <Text fontSize="xs" color="gray.600" truncate>{nft.collection}</Text>
+          </VStack>
+          {chains.length > 1 && (
+            <Badge variant="subtle" fontSize="2xs">{chains.find(({ chain }) => chain === nft.chain)?.label ?? nft.chain}</Badge>
+          )}
+        </HStack>
+      ))}
+      {error && <Text fontSize="xs" color="red.500">{error}</Text>}
+      {loading && <Skeleton height="30px" />}
+      {!done && !error && <Box ref={sentinelRef} height="1px" />}
+      {done && items.length === 0 && <Text fontSize="xs" color="gray.500">No NFTs found.</Text>}
     </VStack>
   );
 };
@@ -630,6 +1114,9 @@ const AlchemyContent: React.FC<{ data: Record<string, unknown> }> = ({ data }) =
   const collections = data.collections as Record<string, { name: string; count: number }> | undefined;
   const source = data.source as string | undefined;
   const error = data.error as string | undefined;
+  const address = data.address as string | undefined;
+  const chains = (data.chains as Array<{ chain: string; label: string; totalCount: number; error?: string }> | undefined) ?? [];
+  const [showAll, setShowAll] = React.useState(false);
 
   if (error === 'NO_API_KEY') {
     return (
@@ -692,13 +1179,37 @@ const AlchemyContent: React.FC<{ data: Record<string, unknown> }> = ({ data }) =
                 </HStack>
               </Box>
             ))}
-            {nfts.length > 3 && (
+            {nfts.length > 3 && !address && (
               <Text fontSize="xs" color="gray.500" textAlign="center">+{nfts.length - 3} more NFTs</Text>
             )}
           </VStack>
         </Box>
       )}
 
+      {chains.length > 1 && (
+        <HStack gap={1} flexWrap="wrap">
+          {chains.map(({ chain, label, totalCount: chainCount, error: chainError }) => (
+            <Badge key={chain} colorScheme={chainError ? 'red' : 'blue'} variant="subtle" fontSize="xs" title={chainError}>
+              {label}: {chainError ? 'error' : chainCount}
+            </Badge>
+          ))}
+        </HStack>
+      )}
+
+      {address && totalCount !== undefined && totalCount > 3 && (
+        <Box>
+          <Button size="xs" variant="ghost" colorScheme="blue" onClick={() => setShowAll(!showAll)} px={1}>
+            {showAll ? 'Hide' : `View all ${totalCount} NFTs`}
+          </Button>
+          {showAll && (
+            <NftInfiniteList
+              address={address}
+              chains={chains.length > 0 ? chains.filter(({ error: chainError }) => !chainError) : [{ chain: 'eth', label: 'Ethereum' }]}
+            />
+          )}
+        </Box>
+      )}
+
       <HStack justify="space-between" align="center">
         {source && source !== 'none' && (
           <Text fontSize="xs" color="gray.500">Source: {source}</Text>
@@ -715,6 +1226,7 @@ const OpenSeaContent: React.FC<{ data: Record<string, unknown> }> = ({ data }) =
     image?: string;
     floorPrice?: number;
     estimatedValue?: number;
+    estimatedValueUsd?: number | null;
     currency?: string;
     permalink?: string;
     rarity?: string;
@@ -729,15 +1241,19 @@ const OpenSeaContent: React.FC<{ data: Record<string, unknown> }> = ({ data }) =
       count: number;
       floorPrice: number;
       totalValue: number;
+      sevenDayVolume?: number | null;
     }>;
   } | undefined;
   const portfolioSummary = data.portfolioSummary as {
     totalValue?: number;
     currency?: string;
+    totalValueUsd?: number | null;
   } | undefined;
   const profileUrl = data.profileUrl as string | undefined;
   const source = data.source as string | undefined;
   const error = data.error as string | undefined;
+  const complete = data.complete as boolean | undefined;
+  const partial = data.partial as boolean | undefined;
 
   if (error === 'OPENSEA_API_KEY_REQUIRED' || error === 'API_INTEGRATION_PENDING') {
     return (
@@ -768,7 +1284,19 @@ const OpenSeaContent: React.FC<{ data: Record<string, unknown> }> = ({ data }) =
             <Text fontSize="lg" fontWeight="bold" color="green.600">
               {portfolioSummary.totalValue.toFixed(2)} {portfolioSummary.currency || 'ETH'}
             </Text>
+            {typeof portfolioSummary.totalValueUsd === 'number' && (
+              <Text fontSize="sm" color="gray.600">
+                ≈ ${Math.round(portfolioSummary.totalValueUsd).toLocaleString()}
+              </Text>
+            )}
           </HStack>
+          <Text fontSize="xs" color="gray.500">
+            At collection floor prices
+            {complete === false && `, for the first ${marketStats?.totalNFTs ?? 0} NFTs`}
+          </Text>
+          {partial && (
+            <Text fontSize="xs" color="orange.600">Some prices could not be loaded; the value may be higher.</Text>
+          )}
         </Box>
       )}
 
@@ -804,9 +1332,10 @@ const OpenSeaContent: React.FC<{ data: Record<string, unknown> }> = ({ data }) =
                   <VStack align="start" gap={0} flex={1}>
                     <Text fontSize="xs" fontWeight="semibold" color="gray.800" truncate>{nft.name}</Text>
                     <Text fontSize="xs" color="gray.600" truncate>{nft.collection}</Text>
-                    {nft.estimatedValue && (
+                    {nft.estimatedValue !== undefined && nft.estimatedValue > 0 && (
                       <Text fontSize="xs" color="green.600" fontWeight="semibold">
                         ~{nft.estimatedValue.toFixed(2)} {nft.currency || 'ETH'}
+                        {typeof nft.estimatedValueUsd === 'number' && ` (≈ $${Math.round(nft.estimatedValueUsd).toLocaleString()})`}
                       </Text>
                     )}
                   </VStack>
@@ -838,10 +1367,13 @@ const OpenSeaContent: React.FC<{ data: Record<string, unknown> }> = ({ data }) =
               <HStack key={index} justify="space-between">
                 <VStack align="start" gap={0}>
                   <Text fontSize="xs" fontWeight="semibold" color="gray.800" truncate>{collection.name}</Text>
-                  <Text fontSize="xs" color="gray.600">{collection.count} NFTs</Text>
+                  <Text fontSize="xs" color="gray.600">
+                    {collection.count} NFTs · floor {collection.floorPrice.toFixed(3)} ETH
+                    {typeof collection.sevenDayVolume === 'number' && ` · 7d vol ${collection.sevenDayVolume.toFixed(1)} ETH`}
+                  </Text>
                 </VStack>
                 <Text fontSize="xs" color="green.600" fontWeight="semibold">
-                  {collection.totalValue.toFixed(1)} ETH
+                  {collection.totalValue.toFixed(2)} ETH
                 </Text>
               </HStack>
             ))}
@@ -1210,10 +1742,13 @@ const ZerionContent: React.FC<{ data: Record<string, unknown> }> = ({ data }) =>
 
 const XMTPContent: React.FC<{ data: Record<string, unknown> }> = ({ data }) => {
   const inboxId = (data.inboxId as string | null) || null;
-  const connectedIdentities = data.connectedIdentities as Array<{ identifier: string; kind: string }> | undefined;
+  const connectedIdentities = data.connectedIdentities as Array<{ identifier: string; kind: string; ensName?: string | null }> | undefined;
   const identities = data.identities as Array<{ identifier: string; kind: string }> | undefined;
   const convergeUser = data.convergeUser as string | undefined;
   const convergeUrl = convergeUser ? `https://converge.cv/u/${encodeURIComponent(convergeUser)}` : null;
+  const messageUrl = data.messageUrl as string | null | undefined;
+  const installationCount = data.installationCount as number | undefined;
+  const lastInstallationAt = data.lastInstallationAt as string | null | undefined;
 
   return (
     <VStack gap={3} align="stretch">
@@ -1224,9 +1759,35 @@ const XMTPContent: React.FC<{ data: Record<string, unknown> }> = ({ data }) => {
         </Text>
       </Box>
 
+      {installationCount !== undefined && installationCount > 0 && (
+        <HStack gap={4}>
+          <Box>
+            <Text fontSize="xs" color="gray.600">Installations</Text>
+            <Text fontSize="lg" fontWeight="bold" color="gray.700">{installationCount}</Text>
+          </Box>
+          {lastInstallationAt && (
+            <Box>
+              <Text fontSize="xs" color="gray.600">Last device added</Text>
+              <Text fontSize="sm" color="gray.700">{new Date(lastInstallationAt).toLocaleDateString()}</Text>
+            </Box>
+          )}
+        </HStack>
+      )}
+
+      {messageUrl && (
+        <Button
+          colorScheme="blue"
+          size="sm"
+          onClick={() => window.open(messageUrl, '_blank', 'noopener,noreferrer')}
+        >
+          Message on XMTP
+        </Button>
+      )}
+
       {inboxId && convergeUser && (
         <Button
           colorScheme="blue"
+          variant={messageUrl ? 'outline' : 'solid'}
           size="sm"
           onClick={() => {
             if (convergeUrl) window.open(convergeUrl, '_blank', 'noopener,noreferrer');
@@ -1249,9 +1810,23 @@ const XMTPContent: React.FC<{ data: Record<string, unknown> }> = ({ data }) => {
                 >
                   {identity.kind}
                 </Badge>
-                <Text fontSize="xs" color="gray.700" wordBreak="break-all" textAlign="right">
-                  {identity.identifier}
-                </Text>
+                {identity.kind === 'ethereum' ? (
+                  // Each linked wallet opens its own profile, named when it has a primary name.
+                  <Link
+                    href={`/${identity.ensName ?? identity.identifier}`}
+                    fontSize="xs"
+                    color="blue.600"
+                    textAlign="right"
+                    wordBreak="break-all"
+                    title={identity.identifier}
+                  >
+                    {identity.ensName ?? identity.identifier}
+                  </Link>
+                ) : (
+                  <Text fontSize="xs" color="gray.700" wordBreak="break-all" textAlign="right">
+                    {identity.identifier}
+                  </Text>
+                )}
               </HStack>
             ))}
             {connectedIdentities.length > 4 && (
@@ -1293,18 +1868,23 @@ export const FastXMTPCard: React.FC<{
   lastUpdated?: string | null;
   error?: { lastError: string; errorCount: number; lastAttempt: string } | null;
   onRefresh?: () => void;
-}> = ({ data, loading, lastUpdated, error, onRefresh }) => (
-  <ServiceCard
-    data={data}
-    loading={loading}
-    serviceName="XMTP"
-    icon="✉️"
-    description="Inbox ID and connected identities"
-    lastUpdated={lastUpdated}
-    error={error}
-    onRefresh={onRefresh}
-  />
-);
+}> = ({ data, loading, lastUpdated, error, onRefresh }) => {
+  // Unreachable inboxes have nothing to act on, so the card is left out entirely.
+  if (!loading && !error && data?.canMessage === false) return null;
+
+  return (
+    <ServiceCard
+      data={data}
+      loading={loading}
+      serviceName="XMTP"
+      icon="✉️"
+      description="Inbox ID and connected identities"
+      lastUpdated={lastUpdated}
+      error={error}
+      onRefresh={onRefresh}
+    />
+  );
+};
 
 export const FastFarcasterCard: React.FC<{
   data: Record<string, unknown> | null;
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 
 import { FastProfileData, SERVICES_CONFIG } from '../lib/cacheStore';
+import { applyProfileStreamEvent, ProfileStreamEvent } from '../lib/fastProfileData';
 
 
 interface UseFastProfileOptions {
@@ -9,8 +10,15 @@ interface UseFastProfileOptions {
   enablePolling?: boolean; // Whether to enable automatic polling (default: true)
   minPollInterval?: number; // Minimum interval between polls (default: 10 seconds)
   maxPollInterval?: number; // Maximum interval between polls (default: 5 minutes)
+  stream?: boolean; // Receive updates from /api/fast-profile/stream instead of polling (default: false)
 }
 
+// disabled: polling mode; connecting/open: EventSource state; fallback: the stream failed, polling took over
+export type ProfileStreamStatus = 'disabled' | 'connecting' | 'open' | 'fallback';
+
+// Consecutive connection errors (without a snapshot in between) before giving up on the stream.
+const MAX_STREAM_FAILURES = 3;
+
 export function useFastProfile(
   address: string | null,
   options: UseFastProfileOptions = {},
@@ -21,16 +29,22 @@ export function useFastProfile(
     initialPollDelay = 10000,
     enablePolling = true,
     minPollInterval = 10000,
+    stream = false,
   } = options;
 
   const [data, setData] = useState<FastProfileData | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdate, setLastUpdate] = useState<string | null>(null);
+  const [streamStatus, setStreamStatus] = useState<ProfileStreamStatus>(stream ? 'connecting' : 'disabled');
+  // Polling only runs when the stream is off or has given up.
+  const pollingActive = enablePolling && (!stream || streamStatus === 'fallback');
 
   // Use refs to track current values without causing re-renders
   const dataRef = useRef<FastProfileData | null>(null);
   const lastUpdateRef = useRef<string | null>(null);
+  // ETag of the response in `data`; polls revalidate with it and get an empty 304 when nothing changed.
+  const etagRef = useRef<string | null>(null);
 
   const pollTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lastPollRef = useRef<number>(0);
@@ -52,7 +66,7 @@ export function useFastProfile(
     if (isPolling && timeSinceLastPoll < minPollInterval) {
       console.log(`🚫 Skipping poll - only ${timeSinceLastPoll}ms since last poll (min: ${minPollInterval}ms)`);
       // Reschedule if we skipped
-      if (enablePolling) {
+      if (pollingActive) {
         pollTimeoutRef.current = setTimeout(() => fetchData(true), minPollInterval - timeSinceLastPoll + 100);
       }
       return;
@@ -63,7 +77,20 @@ export function useFastProfile(
 
       console.log(`📡 Fetching profile data for ${address} (polling: ${isPolling})`);
 
-      const response = await fetch(`/api/fast-profile?address=${address}`);
+      const response = await fetch(`/api/fast-profile?address=${address}`, {
+        // Revalidate ourselves so the 304 reaches us instead of being answered from the HTTP cache.
+        cache: 'no-store',
+        headers: isPolling && etagRef.current && dataRef.current ? { 'If-None-Match': etagRef.current } : undefined,
+      });
+
+      if (response.status === 304) {
+        consecutiveErrorsRef.current = 0;
+        currentIntervalRef.current = pollInterval;
+        lastPollRef.current = Date.now();
+        console.log(`📄 No new data for ${address} (304)`);
+        return;
+      }
+
       const result = await response.json();
 
       if (!response.ok) {
@@ -78,6 +105,7 @@ export function useFastProfile(
       const currentData = dataRef.current;
       const currentLastUpdate = lastUpdateRef.current;
 
+      etagRef.current = response.headers.get('ETag');
       if (!isPolling || !currentData || result.lastContentUpdate !== currentLastUpdate) {
         setData(result);
         setLastUpdate(result.lastContentUpdate);
@@ -107,12 +135,12 @@ export function useFastProfile(
       if (!isPolling) setLoading(false);
 
       // Schedule next poll
-      if (enablePolling && isPolling) {
+      if (pollingActive && isPolling) {
         if (pollTimeoutRef.current) clearTimeout(pollTimeoutRef.current);
         pollTimeoutRef.current = setTimeout(() => fetchData(true), currentIntervalRef.current);
       }
     }
-  }, [address, minPollInterval, pollInterval, enablePolling, maxPollInterval]);
+  }, [address, minPollInterval, pollInterval, pollingActive, maxPollInterval]);
 
   // Initial load
   useEffect(() => {
@@ -124,13 +152,74 @@ export function useFastProfile(
       setLastUpdate(null);
       consecutiveErrorsRef.current = 0;
       lastPollRef.current = 0;
+      etagRef.current = null;
+      // In stream mode the stream's snapshot is the initial load.
+      if (!stream) fetchData(false);
+    }
+  }, [address, fetchData, stream]);
+
+  // Stream mode: snapshot first, then one event per service as the background refresh lands.
+  useEffect(() => {
+    if (!address || !stream) return;
+
+    if (typeof window === 'undefined' || typeof window.EventSource === 'undefined') {
+      setStreamStatus('fallback');
+      return;
+    }
+
+    console.log(`📺 Opening profile stream for ${address}`);
+    setStreamStatus('connecting');
+    const source = new EventSource(`/api/fast-profile/stream?address=${encodeURIComponent(address)}`);
+    let failures = 0;
+
+    source.addEventListener('snapshot', (event) => {
+      const snapshot: FastProfileData = JSON.parse((event as MessageEvent<string>).data);
+      failures = 0;
+      setData(snapshot);
+      setLastUpdate(snapshot.lastContentUpdate);
+      setError(null);
+      setLoading(false);
+      setStreamStatus('open');
+    });
+
+    const handleServiceEvent = (type: ProfileStreamEvent['type']) => (event: Event) => {
+      const streamEvent = { type, payload: JSON.parse((event as MessageEvent<string>).data) } as ProfileStreamEvent;
+      console.log(`📺 ${type} for ${streamEvent.payload.service}`);
+      setData((previous) => (previous ? applyProfileStreamEvent(previous, streamEvent) : previous));
+      if (streamEvent.type === 'service_updated' && streamEvent.payload.lastUpdated) {
+        const { lastUpdated } = streamEvent.payload;
+        setLastUpdate((previous) => (previous && previous > lastUpdated ? previous : lastUpdated));
+      }
+    };
+    source.addEventListener('service_updated', handleServiceEvent('service_updated'));
+    source.addEventListener('service_failed', handleServiceEvent('service_failed'));
+
+    source.onerror = () => {
+      // EventSource reconnects on its own (the server also ends the stream before maxDuration);
+      // only fall back when reconnecting keeps failing.
+      failures += 1;
+      if (failures >= MAX_STREAM_FAILURES || source.readyState === EventSource.CLOSED) {
+        console.log(`⚠️ Profile stream unavailable for ${address}; falling back to polling`);
+        source.close();
+        setStreamStatus('fallback');
+      }
+    };
+
+    return () => {
+      source.close();
+    };
+  }, [address, stream]);
+
+  // The stream gave up before delivering a snapshot: load once the regular way.
+  useEffect(() => {
+    if (address && streamStatus === 'fallback' && !dataRef.current) {
       fetchData(false);
     }
-  }, [address, fetchData]);
+  }, [address, streamStatus, fetchData]);
 
   // Polling setup
   useEffect(() => {
-    if (!address || !enablePolling) {
+    if (!address || !pollingActive) {
       // Clear any existing timeout
       if (pollTimeoutRef.current) {
         clearTimeout(pollTimeoutRef.current);
@@ -153,7 +242,7 @@ export function useFastProfile(
         pollTimeoutRef.current = null;
       }
     };
-  }, [address, enablePolling, initialPollDelay, fetchData]);
+  }, [address, pollingActive, initialPollDelay, fetchData]);
 
   // Manual refresh function
   const refresh = useCallback(() => {
@@ -241,14 +330,16 @@ export function useFastProfile(
       cacheStatus: data?.cacheStatus || 'miss',
       nextPollIn: pollTimeoutRef.current ? currentIntervalRef.current : null,
       errorCount: consecutiveErrorsRef.current,
+      streamStatus,
     };
-  }, [data, lastUpdate]);
+  }, [data, lastUpdate, streamStatus]);
 
   return {
     data,
     loading,
     error,
     lastUpdate,
+    streamStatus,
     refresh,
     refreshService,
     getServiceData,
@@ -0,0 +1,88 @@
+import { ens_normalize } from '@adraffy/ens-normalize';
+import { getAddress, isAddress } from 'viem';
+
+import type { EnsResolver } from './ensResolver';
+
+// Canonical identity for a profile request. Every `service_cache` / `sync_queue` row is
+// keyed by the checksummed address, so `vitalik.eth`, `Vitalik.eth` and `0xd8da…` all
+// share one set of rows and one refresh. The ENS name is display metadata only.
+export interface ResolvedProfileAddress {
+  address: string;
+  ensName: string | null;
+}
+
+export interface AddressResolverDependencies {
+  ens: Pick<EnsResolver, 'resolveName'>;
+}
+
+export class AddressResolutionError extends Error {
+  constructor(public status: 400 | 404 | 502, message: string) {
+    super(message);
+    this.name = 'AddressResolutionError';
+  }
+}
+
+/**
+ * Key for `service_cache` and `sync_queue` rows. Accepts any casing of a valid address.
+ */
+export function toAddressKey(address: string): string {
+  return getAddress(address);
+}
+
+export type ProfileInput = { kind: 'address'; address: string } | { kind: 'name'; name: string };
+
+/**
+ * Validates a user-supplied address or ENS name without touching the network.
+ * Mixed-case addresses must carry a valid EIP-55 checksum; names are ENSIP-15 normalized.
+ */
+export function parseProfileInput(input: string): ProfileInput {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    throw new AddressResolutionError(400, 'Address or ENS name is required');
+  }
+
+  if (/^0x[a-fA-F0-9]{40}$/.test(trimmed)) {
+    if (!isAddress(trimmed, { strict: true })) {
+      throw new AddressResolutionError(400, `Invalid address checksum: ${trimmed}`);
+    }
+    return { kind: 'address', address: getAddress(trimmed) };
+  }
+
+  if (!trimmed.includes('.') || trimmed.startsWith('0x')) {
+    throw new AddressResolutionError(400, 'Invalid Ethereum address or ENS name format');
+  }
+
+  try {
+    return { kind: 'name', name: ens_normalize(trimmed) };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new AddressResolutionError(400, `Invalid ENS name ${trimmed}: ${reason}`);
+  }
+}
+
+/**
+ * Builds the resolver used by the profile endpoints. Names go through the shared ENS
+ * resolver, whose `ens_records` cache doubles as the name -> address alias table.
+ */
+export function createAddressResolver(dependencies: AddressResolverDependencies) {
+  const { ens } = dependencies;
+
+  return async function resolveProfileAddress(input: string): Promise<ResolvedProfileAddress> {
+    const parsed = parseProfileInput(input);
+    if (parsed.kind === 'address') {
+      return { address: parsed.address, ensName: null };
+    }
+
+    let address: string | null;
+    try {
+      address = await ens.resolveName(parsed.name);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new AddressResolutionError(502, `Failed to resolve ENS name ${parsed.name}: ${message}`);
+    }
+    if (!address) {
+      throw new AddressResolutionError(404, `ENS name ${parsed.name} does not resolve to an address`);
+    }
+    return { address, ensName: parsed.name };
+  };
+}
@@ -0,0 +1,192 @@
+import { createPublicClient, getAddress, parseAbi, type PublicClient } from 'viem';
+import { mainnet } from 'viem/chains';
+
+import { ensResolver, type EnsResolver } from './ensResolver';
+import { toGatewayUrl } from './gateways';
+import { publicFetch } from './publicFetch';
+import { mainnetTransport } from './rpc';
+
+// ENSIP-12 avatar resolution. An `avatar` text record is either a URI (https, ipfs, ipns,
+// ar, data) or an NFT reference `eip155:<chainId>/erc721|erc1155:<contract>/<tokenId>`.
+// NFT avatars only count when the name's ETH address holds the token; the image then
+// comes from the token's metadata.
+
+export type AvatarRecord =
+  | { kind: 'uri'; uri: string }
+  | { kind: 'erc721' | 'erc1155'; chainId: number; contract: `0x${string}`; tokenId: bigint };
+
+export interface ResolvedAvatar {
+  // The text record as set.
+  record: string;
+  kind: AvatarRecord['kind'];
+  // The image as referenced by the record or the NFT metadata (ipfs://, https://, data:).
+  imageUri: string;
+  // Displayable URL: first gateway URL, or the data: URI itself.
+  url: string;
+}
+
+export type AvatarNftClient = Pick<PublicClient, 'readContract'>;
+
+export interface AvatarResolverDependencies {
+  ens: Pick<EnsResolver, 'getText' | 'resolveName'>;
+  // Mainnet client; NFT avatars on other chains are not resolved.
+  client: AvatarNftClient;
+  // Fetches token metadata, whose URI is chosen by the NFT contract.
+  fetchFn: typeof fetch;
+}
+
+export interface AvatarResolver {
+  resolveAvatar: (name: string) => Promise<ResolvedAvatar | null>;
+}
+
+const METADATA_TIMEOUT_MS = 5000;
+
+const NFT_AVATAR_RECORD = /^eip155:(\d+)\/(erc721|erc1155):(0x[a-fA-F0-9]{40})\/(\d+)$/i;
+
+const ERC721_ABI = parseAbi([
+  'function ownerOf(uint256 tokenId) view returns (address)',
+  'function tokenURI(uint256 tokenId) view returns (string)',
+]);
+
+const ERC1155_ABI = parseAbi([
+  'function balanceOf(address account, uint256 id) view returns (uint256)',
+  'function uri(uint256 id) view returns (string)',
+]);
+
+export function parseAvatarRecord(record: string): AvatarRecord | null {
+  const value = record.trim();
+  const nft = NFT_AVATAR_RECORD.exec(value);
+  if (nft) {
+    return {
+      kind: nft[2].toLowerCase() as 'erc721' | 'erc1155',
+      chainId: Number(nft[1]),
+      contract: getAddress(nft[3]),
+      tokenId: BigInt(nft[4]),
+    };
+  }
+  if (/^(https?|ipfs|ipns|ar):\/\//i.test(value) || value.startsWith('data:')) {
+    return { kind: 'uri', uri: value };
+  }
+  return null;
+}
+
+/**
+ * Decodes a `data:` URI (base64 or percent-encoded). Returns null for anything else.
+ */
+export function decodeDataUri(uri: string): { mimeType: string; body: Buffer } | null {
+  const match = /^data:([^,]*?),([\s\S]*)$/.exec(uri);
+  if (!match) return null;
+  const params = match[1].split(';');
+  const isBase64 = params.includes('base64');
+  const mimeType = params[0] || 'text/plain';
+  try {
+    const body = isBase64 ? Buffer.from(match[2], 'base64') : Buffer.from(decodeURIComponent(match[2]), 'utf8');
+    return { mimeType: mimeType.toLowerCase(), body };
+  } catch {
+    return null;
+  }
+}
+
+// ERC-1155 metadata URIs carry an `{id}` placeholder for the hex token id (EIP-1155).
+function substituteTokenId(uri: string, tokenId: bigint): string {
+  return uri.replace(/\{id\}/g, tokenId.toString(16).padStart(64, '0'));
+}
+
+async function fetchMetadata(uri: string, fetchFn: typeof fetch): Promise<Record<string, unknown>> {
+  const data = decodeDataUri(uri);
+  if (data) return JSON.parse(data.body.toString('utf8'));
+
+  const url = toGatewayUrl(uri);
+  if (!url) throw new Error(`Unsupported token URI: ${uri}`);
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), METADATA_TIMEOUT_MS);
+  try {
+    const response = await fetchFn(url, { signal: controller.signal, headers: { Accept: 'application/json' } });
+    if (!response.ok) throw new Error(`Token metadata responded ${response.status}`);
+    return await response.json();
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function getMetadataImage(metadata: Record<string, unknown>): string | null {
+  for (const key of ['image', 'image_url']) {
+    const value = metadata[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  // Inline SVG markup (used by some on-chain collections).
+  if (typeof metadata.image_data === 'string' && metadata.image_data.trim()) {
+    return `data:image/svg+xml;base64,${Buffer.from(metadata.image_data).toString('base64')}`;
+  }
+  return null;
+}
+
+export function createAvatarResolver(dependencies: AvatarResolverDependencies): AvatarResolver {
+  const { ens, client, fetchFn } = dependencies;
+
+  async function resolveNftImage(name: string, record: Exclude<AvatarRecord, { kind: 'uri' }>): Promise<string | null> {
+    if (record.chainId !== mainnet.id) {
+      console.warn(`[avatar] ${name}: NFT avatars on chain ${record.chainId} are not supported`);
+      return null;
+    }
+
+    const owner = await ens.resolveName(name);
+    if (!owner) return null;
+
+    let tokenUri: string;
+    if (record.kind === 'erc721') {
+      const [tokenOwner, uri] = await Promise.all([
+        client.readContract({ address: record.contract, abi: ERC721_ABI, functionName: 'ownerOf', args: [record.tokenId] }),
+        client.readContract({ address: record.contract, abi: ERC721_ABI, functionName: 'tokenURI', args: [record.tokenId] }),
+      ]);
+      if (getAddress(tokenOwner) !== getAddress(owner)) {
+        console.warn(`[avatar] ${name}: avatar NFT is owned by ${tokenOwner}, not ${owner}`);
+        return null;
+      }
+      tokenUri = uri;
+    } else {
+      const [balance, uri] = await Promise.all([
+        client.readContract({ address: record.contract, abi: ERC1155_ABI, functionName: 'balanceOf', args: [getAddress(owner), record.tokenId] }),
+        client.readContract({ address: record.contract, abi: ERC1155_ABI, functionName: 'uri', args: [record.tokenId] }),
+      ]);
+      if (balance === BigInt(0)) {
+        console.warn(`[avatar] ${name}: ${owner} holds none of the avatar NFT`);
+        return null;
+      }
+      tokenUri = substituteTokenId(uri, record.tokenId);
+    }
+
+    return getMetadataImage(await fetchMetadata(tokenUri, fetchFn));
+  }
+
+  return {
+    resolveAvatar: async (name) => {
+      const record = await ens.getText(name, 'avatar');
+      if (!record) return null;
+
+      const parsed = parseAvatarRecord(record);
+      if (!parsed) {
+        console.warn(`[avatar] ${name}: unrecognized avatar record ${record}`);
+        return null;
+      }
+
+      const imageUri = parsed.kind === 'uri' ? parsed.uri : await resolveNftImage(name, parsed);
+      if (!imageUri) return null;
+
+      const url = toGatewayUrl(imageUri);
+      return url ? { record, kind: parsed.kind, imageUri, url } : null;
+    },
+  };
+}
+
+const mainnetClient = createPublicClient({
+  chain: mainnet,
+  transport: mainnetTransport,
+});
+
+export const avatarResolver: AvatarResolver = createAvatarResolver({
+  ens: ensResolver,
+  client: mainnetClient,
+  fetchFn: publicFetch,
+});
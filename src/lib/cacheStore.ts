@@ -1,5 +1,8 @@
 export interface FastProfileData {
+  // Checksummed address; the cache key for every service.
   address: string;
+  // The ENS name the profile was requested by, if any (display only).
+  ensName?: string | null;
   services: {
     ens?: Record<string, unknown> | null;
     xmtp?: Record<string, unknown> | null;
@@ -22,6 +25,9 @@ export interface FastProfileData {
   serviceTimestamps?: {
     [serviceName: string]: string;
   };
+  serviceFreshness?: {
+    [serviceName: string]: ServiceFreshness;
+  };
   lastContentUpdate: string;
   cacheStatus: 'hit' | 'miss' | 'partial';
   source: string;
@@ -29,6 +35,10 @@ export interface FastProfileData {
   error?: string; // Optional error field
 }
 
+// fresh: before `expires_at`; stale: past it but within the service's stale-serve window
+// (served as-is while a refresh is queued); expired: beyond the window or never fetched.
+export type ServiceFreshness = 'fresh' | 'stale' | 'expired';
+
 export const globalFetchLock = new Map<string, Promise<void>>();
 
 // For the queue endpoint - recent updates log
@@ -44,6 +54,20 @@ export interface RecentUpdateEvent {
 export const recentUpdatesLog: RecentUpdateEvent[] = [];
 const MAX_LOG_SIZE = 20; // Keep a bit more than 10 for buffer
 
+type RecentUpdateListener = (event: RecentUpdateEvent) => void;
+const recentUpdateListeners = new Set<RecentUpdateListener>();
+
+/**
+ * Calls `listener` for every event recorded by this instance (used by the SSE stream).
+ * Returns the unsubscribe function.
+ */
+export function subscribeToUpdateEvents(listener: RecentUpdateListener): () => void {
+  recentUpdateListeners.add(listener);
+  return () => {
+    recentUpdateListeners.delete(listener);
+  };
+}
+
 export function addRecentUpdateEvent(eventData: Omit<RecentUpdateEvent, 'timestamp'>): void {
   const event = { ...eventData, timestamp: Date.now() };
   recentUpdatesLog.unshift(event);
@@ -51,53 +75,101 @@ export function addRecentUpdateEvent(eventData: Omit<RecentUpdateEvent, 'timesta
     recentUpdatesLog.length = MAX_LOG_SIZE;
   }
   console.log(`[CacheStoreEvent] ${event.status} for ${event.address}` + (event.serviceName ? ` (service: ${event.serviceName})` : '') + (event.message ? ` Msg: ${event.message}` : ''));
+  recentUpdateListeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('[CacheStoreEvent] Listener failed:', error);
+    }
+  });
 }
 
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Cache policy per service:
+// - provider: upstream whose circuit breaker gates refreshes (null = not breaker-managed)
+// - renderPriority: higher = shown earlier on the profile page, so refreshed first
+// - successTtlMs: how long a successful fetch stays fresh
+// - errorTtlMs: how long to wait before retrying after a failed fetch, or after a result the
+//   collector marked `partial: true` (stored, but some of its upstream lookups failed)
+// - staleServeMs: how long past expiry the cached data is still served as "stale"
+// - url: the `/api/services/*` route a card's manual refresh calls from the browser (with the
+//   name the page was opened by, where the service accepts one). The sync worker doesn't use
+//   it: it runs collectors in-process with the checksummed address.
 export const SERVICES_CONFIG = [
   {
     name: 'ens',
     key: 'ens',
+    provider: null,
+    renderPriority: 9,
     defaultData: {},
     timeoutMs: 20000,
+    successTtlMs: 24 * HOUR,
+    errorTtlMs: 1 * HOUR,
+    staleServeMs: 7 * DAY,
     url: (address: string) => `/api/services/ens?address=${address}`
   },
   {
     name: 'xmtp',
     key: 'xmtp',
+    provider: null,
+    renderPriority: 7,
     defaultData: { inboxId: null, connectedIdentities: [], identities: [] },
     timeoutMs: 20000,
+    successTtlMs: 12 * HOUR,
+    errorTtlMs: 1 * HOUR,
+    staleServeMs: 3 * DAY,
     url: (address: string) => `/api/services/xmtp?address=${address}`
   },
   {
     name: 'farcaster',
     key: 'farcaster',
+    provider: 'neynar',
+    renderPriority: 10,
     defaultData: null,
     timeoutMs: 15000,
+    successTtlMs: 6 * HOUR,
+    errorTtlMs: 30 * MINUTE,
+    staleServeMs: 2 * DAY,
     url: (address: string) => `/api/services/farcaster?address=${address}`
   },
   {
     name: 'alchemy',
     key: 'alchemy',
+    provider: 'alchemy',
+    renderPriority: 6,
     defaultData: { totalCount: 0, nfts: [], collections: {}, source: 'none' },
     timeoutMs: 20000,
+    successTtlMs: 12 * HOUR,
+    errorTtlMs: 1 * HOUR,
+    staleServeMs: 2 * DAY,
     url: (address: string) => `/api/services/alchemy?address=${address}`
   },
   {
     name: 'opensea',
     key: 'opensea',
+    provider: 'opensea',
+    renderPriority: 5,
     defaultData: {
       profileUrl: '',
       topValuedNFTs: [],
       marketStats: { totalEstimatedValue: 0, totalFloorValue: 0, uniqueCollections: 0, totalNFTs: 0, topCollectionsByValue: [] },
-      portfolioSummary: { totalValue: 0, currency: 'ETH', lastUpdated: '' },
+      portfolioSummary: { totalValue: 0, currency: 'ETH', totalValueUsd: null, ethUsdPrice: null, lastUpdated: '' },
       source: 'none'
     },
     timeoutMs: 25000,
+    successTtlMs: 6 * HOUR,
+    errorTtlMs: 1 * HOUR,
+    staleServeMs: 1 * DAY,
     url: (address: string) => `/api/services/opensea?address=${address}`
   },
   {
     name: 'debank',
     key: 'debank',
+    provider: 'debank',
+    renderPriority: 4,
     defaultData: {
       totalUSD: 0,
       totalTokens: 0,
@@ -109,36 +181,83 @@ export const SERVICES_CONFIG = [
       source: 'none'
     },
     timeoutMs: 20000,
+    successTtlMs: 15 * MINUTE,
+    errorTtlMs: 10 * MINUTE,
+    staleServeMs: 6 * HOUR,
     url: (address: string) => `/api/services/debank?address=${address}`
   },
   {
     name: 'zerion',
     key: 'zerion',
+    provider: 'zerion',
+    renderPriority: 3,
     defaultData: null,
     timeoutMs: 20000,
+    successTtlMs: 15 * MINUTE,
+    errorTtlMs: 10 * MINUTE,
+    staleServeMs: 6 * HOUR,
     url: (address: string) => `/api/services/zerion?address=${address}`
   },
   {
     name: 'icebreaker',
     key: 'icebreaker',
+    provider: null,
+    renderPriority: 8,
     defaultData: null,
     timeoutMs: 20000,
+    successTtlMs: 24 * HOUR,
+    errorTtlMs: 1 * HOUR,
+    staleServeMs: 7 * DAY,
     url: (address: string, originalInput?: string) => `/api/services/icebreaker?address=${originalInput || address}`
   },
   {
     name: 'gitcoin-passport',
     key: 'gitcoin-passport',
+    provider: 'passport',
+    renderPriority: 1,
     defaultData: {},
     timeoutMs: 20000,
+    successTtlMs: 24 * HOUR,
+    errorTtlMs: 1 * HOUR,
+    staleServeMs: 7 * DAY,
     url: (address: string) => `/api/services/gitcoin-passport?address=${address}`
   },
   {
     name: 'decentraland',
     key: 'decentraland',
+    provider: 'decentraland',
+    renderPriority: 2,
     defaultData: {},
     timeoutMs: 30000,
+    successTtlMs: 24 * HOUR,
+    errorTtlMs: 2 * HOUR,
+    staleServeMs: 7 * DAY,
     url: (address: string) => `/api/services/decentraland?address=${address}`
   },
 ] as const;
 
 export type ServiceName = (typeof SERVICES_CONFIG)[number]['name'];
+
+// Repeated failures double the retry delay, starting from the service's errorTtlMs.
+const MAX_ERROR_BACKOFF_MS = 1 * DAY;
+
+export function getErrorBackoffMs(service: (typeof SERVICES_CONFIG)[number], errorCount: number): number {
+  const exponent = Math.max(0, errorCount - 1);
+  return Math.min(service.errorTtlMs * Math.pow(2, exponent), MAX_ERROR_BACKOFF_MS);
+}
+
+export function getServiceConfig(name: string): (typeof SERVICES_CONFIG)[number] | undefined {
+  return SERVICES_CONFIG.find((service) => service.name === name);
+}
+
+export function getServiceFreshness(
+  service: (typeof SERVICES_CONFIG)[number],
+  expiresAt: Date | null | undefined,
+  now: Date = new Date(),
+): ServiceFreshness {
+  if (!expiresAt) return 'expired';
+  const expiresAtMs = new Date(expiresAt).getTime();
+  if (now.getTime() < expiresAtMs) return 'fresh';
+  if (now.getTime() < expiresAtMs + service.staleServeMs) return 'stale';
+  return 'expired';
+}
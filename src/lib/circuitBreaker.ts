@@ -0,0 +1,236 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+// Process-wide circuit breakers for the paid/rate-limited upstreams our collectors call.
+// When a provider keeps answering 401/403/429/5xx or failing outright (network errors,
+// timeouts) whatever address we ask about, we stop calling it for a cooling-off period
+// instead of burning quota and latency on every profile.
+// Failures only count towards that when they come from several addresses: one wallet whose
+// data the provider can't serve must not shut the provider off for everyone else.
+
+export type UpstreamProvider = 'neynar' | 'alchemy' | 'opensea' | 'debank' | 'zerion' | 'passport' | 'decentraland';
+
+// A provider's breaker, or one of its scoped breakers (e.g. `alchemy:zora-mainnet`).
+export type BreakerKey = UpstreamProvider | `${UpstreamProvider}:${string}`;
+
+const PROVIDER_HOSTS: Record<UpstreamProvider, string[]> = {
+  neynar: ['api.neynar.com'],
+  alchemy: ['g.alchemy.com'],
+  opensea: ['api.opensea.io'],
+  debank: ['openapi.debank.com'],
+  zerion: ['api.zerion.io'],
+  passport: ['api.passport.xyz'],
+  decentraland: ['decentraland.org'],
+};
+
+const FAILURE_THRESHOLD = 5; // failures within the window that open the breaker
+const MIN_FAILING_ADDRESSES = 3; // distinct addresses those failures must come from
+const FAILURE_WINDOW_MS = 60 * 1000;
+const COOL_OFF_MS = 5 * 60 * 1000;
+const MAX_COOL_OFF_MS = 60 * 60 * 1000;
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface BreakerFailure {
+  at: number;
+  addressKey: string;
+}
+
+interface BreakerEntry {
+  failures: BreakerFailure[];
+  openUntil: number | null;
+  coolOffMs: number;
+  lastStatus: number | null;
+  lastFailureAt: number | null;
+}
+
+export interface CircuitBreakerStatus {
+  provider: BreakerKey;
+  state: CircuitState;
+  openUntil: string | null;
+  recentFailures: number;
+  recentFailingAddresses: number;
+  // Null when the last failure was a request error rather than a response.
+  lastStatus: number | null;
+  lastFailureAt: string | null;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(public readonly provider: BreakerKey, public readonly retryAt: Date) {
+    super(`Circuit breaker open for ${provider} until ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+const breakers = new Map<BreakerKey, BreakerEntry>();
+
+function getEntry(provider: BreakerKey): BreakerEntry {
+  let entry = breakers.get(provider);
+  if (!entry) {
+    entry = { failures: [], openUntil: null, coolOffMs: COOL_OFF_MS, lastStatus: null, lastFailureAt: null };
+    breakers.set(provider, entry);
+  }
+  return entry;
+}
+
+export function isBreakerStatus(status: number): boolean {
+  return status === 401 || status === 403 || status === 429 || status >= 500;
+}
+
+export function getCircuitState(provider: BreakerKey, now = Date.now()): CircuitState {
+  const entry = breakers.get(provider);
+  if (!entry || entry.openUntil === null) return 'closed';
+  return now < entry.openUntil ? 'open' : 'half-open';
+}
+
+export function isCircuitOpen(provider: BreakerKey | null | undefined, now = Date.now()): boolean {
+  if (!provider) return false;
+  return getCircuitState(provider, now) === 'open';
+}
+
+export function getCircuitRetryAt(provider: BreakerKey): Date | null {
+  const openUntil = breakers.get(provider)?.openUntil;
+  return openUntil ? new Date(openUntil) : null;
+}
+
+function recentFailures(entry: BreakerEntry, now: number): BreakerFailure[] {
+  return entry.failures.filter((failure) => now - failure.at < FAILURE_WINDOW_MS);
+}
+
+function countAddresses(failures: BreakerFailure[]): number {
+  return new Set(failures.map((failure) => failure.addressKey)).size;
+}
+
+function recordFailure(provider: BreakerKey, status: number | null, addressKey: string, now: number): void {
+  const entry = getEntry(provider);
+  entry.lastStatus = status;
+  entry.lastFailureAt = now;
+  entry.failures = [...recentFailures(entry, now), { at: now, addressKey }];
+
+  if (entry.failures.length < FAILURE_THRESHOLD || countAddresses(entry.failures) < MIN_FAILING_ADDRESSES) {
+    return;
+  }
+
+  const reason = status === null ? 'request errors' : `${status} responses`;
+  if (getCircuitState(provider, now) === 'half-open') {
+    // Still failing for many addresses after the cool-off: re-open for longer.
+    entry.coolOffMs = Math.min(entry.coolOffMs * 2, MAX_COOL_OFF_MS);
+    console.warn(`[circuit-breaker] ${provider} still failing (${reason}); open for another ${entry.coolOffMs}ms`);
+  } else {
+    console.warn(`[circuit-breaker] Opening breaker for ${provider} after repeated ${reason}; cooling off for ${entry.coolOffMs}ms`);
+  }
+  entry.openUntil = now + entry.coolOffMs;
+  entry.failures = [];
+}
+
+/**
+ * Records one response from `provider`. `addressKey` identifies what the request was for
+ * (normally the address being collected), so failures tied to a single address are told
+ * apart from the provider failing for everyone.
+ */
+export function recordUpstreamResult(provider: BreakerKey, status: number, addressKey: string, now = Date.now()): void {
+  if (isBreakerStatus(status)) {
+    recordFailure(provider, status, addressKey, now);
+    return;
+  }
+
+  // A healthy trial call after the cool-off closes the breaker. While closed, a healthy answer
+  // doesn't clear earlier failures: they age out of the window, so a provider answering a mix
+  // of 429s and 200s can still trip it.
+  const entry = breakers.get(provider);
+  if (entry && getCircuitState(provider, now) === 'half-open') {
+    entry.failures = [];
+    entry.openUntil = null;
+    entry.coolOffMs = COOL_OFF_MS;
+  }
+}
+
+/**
+ * Records a request to `provider` that failed without a response (network error, abort or
+ * timeout). Counts like a failing status; `lastStatus` is null for these.
+ */
+export function recordUpstreamError(provider: BreakerKey, addressKey: string, now = Date.now()): void {
+  recordFailure(provider, null, addressKey, now);
+}
+
+export function getCircuitBreakerStatuses(now = Date.now()): CircuitBreakerStatus[] {
+  return Array.from(breakers.entries()).map(([provider, entry]) => ({
+    provider,
+    state: getCircuitState(provider, now),
+    openUntil: entry.openUntil ? new Date(entry.openUntil).toISOString() : null,
+    recentFailures: recentFailures(entry, now).length,
+    recentFailingAddresses: countAddresses(recentFailures(entry, now)),
+    lastStatus: entry.lastStatus,
+    lastFailureAt: entry.lastFailureAt ? new Date(entry.lastFailureAt).toISOString() : null,
+  }));
+}
+
+export function resetCircuitBreakers(): void {
+  breakers.clear();
+}
+
+// The address whose data is being collected, set around a collector run by `withUpstreamAddress`.
+const upstreamAddress = new AsyncLocalStorage<string>();
+
+/**
+ * Runs `fn` with `address` recorded as the subject of every breaker-wrapped request it makes.
+ */
+export function withUpstreamAddress<T>(address: string, fn: () => Promise<T>): Promise<T> {
+  return upstreamAddress.run(address.toLowerCase(), fn);
+}
+
+function requestUrl(input: RequestInfo | URL): string {
+  return typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+}
+
+function requestHost(input: RequestInfo | URL): string | null {
+  try {
+    return new URL(requestUrl(input)).hostname;
+  } catch {
+    return null;
+  }
+}
+
+function belongsToProvider(host: string, provider: UpstreamProvider): boolean {
+  return PROVIDER_HOSTS[provider].some((suffix) => host === suffix || host.endsWith(`.${suffix}`));
+}
+
+export interface CircuitBreakerOptions {
+  // Splits the provider's breaker by request host (e.g. one per Alchemy network), so a host
+  // that fails on its own (a network the API key isn't enabled for) can't shut off the others.
+  scopeByHost?: (host: string) => string;
+}
+
+/**
+ * Wraps a fetch implementation so requests to `provider`'s hosts feed its breaker and fail
+ * fast with `CircuitOpenError` while it is open. Requests to other hosts pass straight through,
+ * so a collector's incidental fallbacks can't trip another provider's breaker. Requests made
+ * outside `withUpstreamAddress` (e.g. per-fid lookups) are keyed by their URL instead.
+ */
+export function withCircuitBreaker(
+  provider: UpstreamProvider,
+  fetchFn: typeof fetch = fetch,
+  options: CircuitBreakerOptions = {},
+): typeof fetch {
+  return async (input: RequestInfo | URL, init?: RequestInit) => {
+    const host = requestHost(input);
+    if (!host || !belongsToProvider(host, provider)) {
+      return fetchFn(input, init);
+    }
+
+    const breaker: BreakerKey = options.scopeByHost ? `${provider}:${options.scopeByHost(host)}` : provider;
+    if (isCircuitOpen(breaker)) {
+      throw new CircuitOpenError(breaker, getCircuitRetryAt(breaker) ?? new Date());
+    }
+
+    const addressKey = upstreamAddress.getStore() ?? requestUrl(input);
+    let response: Response;
+    try {
+      response = await fetchFn(input, init);
+    } catch (error) {
+      recordUpstreamError(breaker, addressKey);
+      throw error;
+    }
+    recordUpstreamResult(breaker, response.status, addressKey);
+    return response;
+  };
+}
@@ -0,0 +1,130 @@
+import { CircuitOpenError } from '../circuitBreaker';
+import { EnsResolver, ensResolver } from '../ensResolver';
+import {
+  ALCHEMY_NETWORKS,
+  AlchemyChain,
+  AlchemyInventory,
+  alchemyInventory,
+  AlchemyInventoryError,
+  AlchemyInventoryStore,
+  getAlchemyChains,
+  ProcessedNFT,
+} from './alchemyInventory';
+import { Collector, resolveCollectorAddress } from './shared';
+
+export type { ProcessedNFT } from './alchemyInventory';
+
+// NFTs shown on the card; the rest are paged in from `/api/nfts`.
+const PREVIEW_SIZE = 6;
+
+type AlchemyErrorCode = 'NO_API_KEY' | 'API_ERROR' | 'FETCH_ERROR' | 'SERVICE_ERROR';
+
+export interface AlchemyResult {
+  address?: string;
+  totalCount: number;
+  nfts: ProcessedNFT[];
+  collections: {
+    // `<chain>:<contract address>`
+    [key: string]: {
+      name: string;
+      count: number;
+      symbol?: string;
+      chain: AlchemyChain;
+    };
+  };
+  chains?: Array<{
+    chain: AlchemyChain;
+    label: string;
+    totalCount: number;
+    complete: boolean;
+    error?: AlchemyErrorCode;
+  }>;
+  source: string;
+  error?: string;
+  // True when at least one network could not be read, so its NFTs are missing. Such results
+  // are cached for the error TTL only.
+  partial?: boolean;
+}
+
+export type AlchemyDependencies = {
+  ens: Pick<EnsResolver, 'resolveName'>;
+  inventory: AlchemyInventoryStore;
+};
+
+export const defaultAlchemyDependencies: AlchemyDependencies = {
+  ens: ensResolver,
+  inventory: alchemyInventory,
+};
+
+function toErrorCode(error: unknown): AlchemyErrorCode {
+  if (error instanceof AlchemyInventoryError) return error.code;
+  return 'FETCH_ERROR';
+}
+
+export function createAlchemyCollector(
+  dependencies: AlchemyDependencies = defaultAlchemyDependencies,
+): Collector<AlchemyResult> {
+  const { inventory, ens } = dependencies;
+
+  return async function collectAlchemy(address: string): Promise<AlchemyResult> {
+    const resolvedAddress = await resolveCollectorAddress(address, ens);
+    const chains = getAlchemyChains();
+
+    console.log(`Fetching NFT data from Alchemy for: ${resolvedAddress} (${chains.join(', ')})`);
+
+    const results = await Promise.all(chains.map(async (chain) => {
+      try {
+        return { chain, inventory: (await inventory.getInventory(resolvedAddress, chain)).data };
+      } catch (error) {
+        console.error(`Alchemy ${chain} inventory error:`, error);
+        return { chain, error: toErrorCode(error), circuitOpen: error instanceof CircuitOpenError ? error : undefined };
+      }
+    }));
+
+    const inventories = results
+      .map((result) => result.inventory)
+      .filter((value): value is AlchemyInventory => value !== undefined);
+    const errors = results.map((result) => result.error).filter((value): value is AlchemyErrorCode => value !== undefined);
+
+    if (inventories.length === 0) {
+      // Every network is unavailable and some only because its breaker is open: let the caller
+      // retry after the cool-off instead of caching an empty inventory.
+      const circuitOpen = results.find((result) => result.circuitOpen)?.circuitOpen;
+      if (circuitOpen) throw circuitOpen;
+      return {
+        address: resolvedAddress,
+        totalCount: 0,
+        nfts: [],
+        collections: {},
+        source: 'none',
+        error: errors[0] ?? 'SERVICE_ERROR',
+        partial: true,
+      };
+    }
+
+    const collections: AlchemyResult['collections'] = {};
+    for (const { chain, nfts } of inventories) {
+      for (const nft of nfts) {
+        const key = `${chain}:${nft.contractAddress}`;
+        collections[key] ??= { name: nft.collection, count: 0, chain };
+        collections[key].count++;
+      }
+    }
+
+    return {
+      address: resolvedAddress,
+      totalCount: inventories.reduce((sum, { totalCount }) => sum + totalCount, 0),
+      nfts: inventories.flatMap(({ nfts }) => nfts).slice(0, PREVIEW_SIZE),
+      collections,
+      chains: results.map(({ chain, inventory: chainInventory, error }) => ({
+        chain,
+        label: ALCHEMY_NETWORKS[chain].label,
+        totalCount: chainInventory?.totalCount ?? 0,
+        complete: chainInventory?.complete ?? false,
+        ...(error ? { error } : {}),
+      })),
+      source: 'alchemy',
+      ...(errors.length > 0 ? { partial: true } : {}),
+    };
+  };
+}
@@ -0,0 +1,226 @@
+import { getAddress } from 'viem';
+
+import { withCircuitBreaker } from '../circuitBreaker';
+import { toGatewayUrl } from '../gateways';
+import { SubresourceCache, subresourceCache, SubresourceResult } from '../subresourceCache';
+
+// A wallet's full NFT inventory per Alchemy network, paged out of `getNFTsForOwner` and
+// cached as a sub-resource. The Alchemy collector summarizes it; `/api/nfts` pages through it.
+
+export type AlchemyChain = 'eth' | 'base' | 'optimism' | 'arbitrum' | 'polygon' | 'zora';
+
+// `currency` is the native token OpenSea quotes that network's floor prices in.
+// `ordersByTransferTime` marks the networks where `getNFTsForOwner` supports
+// `orderBy=transferTime`; only those report when an NFT arrived in the wallet (`acquiredAt`).
+export const ALCHEMY_NETWORKS: Record<AlchemyChain, {
+  network: string;
+  label: string;
+  chainId: number;
+  currency: string;
+  ordersByTransferTime: boolean;
+}> = {
+  eth: { network: 'eth-mainnet', label: 'Ethereum', chainId: 1, currency: 'ETH', ordersByTransferTime: true },
+  base: { network: 'base-mainnet', label: 'Base', chainId: 8453, currency: 'ETH', ordersByTransferTime: false },
+  optimism: { network: 'opt-mainnet', label: 'Optimism', chainId: 10, currency: 'ETH', ordersByTransferTime: false },
+  arbitrum: { network: 'arb-mainnet', label: 'Arbitrum', chainId: 42161, currency: 'ETH', ordersByTransferTime: false },
+  polygon: { network: 'polygon-mainnet', label: 'Polygon', chainId: 137, currency: 'POL', ordersByTransferTime: false },
+  zora: { network: 'zora-mainnet', label: 'Zora', chainId: 7777777, currency: 'ETH', ordersByTransferTime: false },
+};
+
+export function isAlchemyChain(value: string): value is AlchemyChain {
+  return Object.prototype.hasOwnProperty.call(ALCHEMY_NETWORKS, value);
+}
+
+/**
+ * Networks to collect NFTs on, from `ALCHEMY_NFT_CHAINS` (comma-separated keys of
+ * `ALCHEMY_NETWORKS`, e.g. `eth,base,zora`). Defaults to Ethereum only.
+ */
+export function getAlchemyChains(env: Record<string, string | undefined> = process.env): AlchemyChain[] {
+  const requested = (env.ALCHEMY_NFT_CHAINS ?? '')
+    .split(',')
+    .map((value) => value.trim().toLowerCase())
+    .filter(Boolean);
+  const unknown = requested.filter((value) => !isAlchemyChain(value));
+  if (unknown.length > 0) {
+    console.warn(`[alchemy] Ignoring unknown ALCHEMY_NFT_CHAINS entries: ${unknown.join(', ')}`);
+  }
+  const chains = [...new Set(requested.filter(isAlchemyChain))];
+  return chains.length > 0 ? chains : ['eth'];
+}
+
+export const ALCHEMY_INVENTORY_TTL_MS = 60 * 60 * 1000;
+
+// The API's maximum page size.
+const PAGE_SIZE = 100;
+// 2,000 NFTs per network; larger wallets are marked incomplete rather than paged forever.
+const MAX_PAGES = 20;
+
+// The parts of an NFT v3 `getNFTsForOwner` item we read.
+export interface AlchemyNFT {
+  tokenId: string;
+  tokenType?: string;
+  name?: string | null;
+  description?: string | null;
+  contract: {
+    address: string;
+    name?: string | null;
+    symbol?: string | null;
+    tokenType?: string;
+    openSeaMetadata?: {
+      floorPrice?: number | null;
+      collectionName?: string | null;
+    };
+  };
+  image?: {
+    cachedUrl?: string | null;
+    thumbnailUrl?: string | null;
+    originalUrl?: string | null;
+  };
+  raw?: {
+    metadata?: {
+      name?: string;
+      description?: string;
+      image?: string;
+      attributes?: Array<{
+        trait_type: string;
+        value: string;
+      }>;
+    };
+  };
+  collection?: {
+    name?: string | null;
+  } | null;
+  acquiredAt?: {
+    blockTimestamp?: string | null;
+  } | null;
+  timeLastUpdated: string;
+}
+
+interface AlchemyResponse {
+  ownedNfts: AlchemyNFT[];
+  totalCount: number;
+  pageKey?: string | null;
+}
+
+export interface ProcessedNFT {
+  name: string;
+  collection: string;
+  image: string;
+  tokenId: string;
+  contractAddress: string;
+  chain: AlchemyChain;
+  tokenType?: string;
+  description?: string;
+  attributes?: Array<{
+    trait_type: string;
+    value: string;
+  }>;
+  // OpenSea floor of the collection as reported by Alchemy, in the network's `currency`.
+  floorPrice: number | null;
+  // When the NFT was transferred into the wallet; null on networks not ordered by transfer time.
+  acquiredAt: string | null;
+  lastUpdated: string;
+}
+
+export interface AlchemyInventory {
+  address: string;
+  chain: AlchemyChain;
+  totalCount: number;
+  nfts: ProcessedNFT[];
+  // False when the wallet holds more than `MAX_PAGES` pages.
+  complete: boolean;
+}
+
+export class AlchemyInventoryError extends Error {
+  constructor(public readonly code: 'NO_API_KEY' | 'API_ERROR', message: string) {
+    super(message);
+    this.name = 'AlchemyInventoryError';
+  }
+}
+
+export type AlchemyInventoryDependencies = {
+  fetchFn: typeof fetch;
+  cache: SubresourceCache;
+};
+
+export const defaultAlchemyInventoryDependencies: AlchemyInventoryDependencies = {
+  // One breaker per network (`alchemy:<network>`), keyed by the `<network>.g.alchemy.com` host.
+  fetchFn: withCircuitBreaker('alchemy', fetch, { scopeByHost: (host) => host.split('.')[0] }),
+  cache: subresourceCache,
+};
+
+export interface AlchemyInventoryStore {
+  getInventory: (address: string, chain: AlchemyChain) => Promise<SubresourceResult<AlchemyInventory>>;
+}
+
+export function toProcessedNft(nft: AlchemyNFT, chain: AlchemyChain): ProcessedNFT {
+  const metadata = nft.raw?.metadata;
+  const image = nft.image?.cachedUrl || nft.image?.thumbnailUrl || nft.image?.originalUrl || metadata?.image || '';
+
+  return {
+    name: nft.name || metadata?.name || `#${nft.tokenId}`,
+    collection: nft.collection?.name || nft.contract.name || nft.contract.openSeaMetadata?.collectionName || 'Unknown Collection',
+    image: image ? toGatewayUrl(image) ?? image : '',
+    tokenId: nft.tokenId,
+    contractAddress: nft.contract.address,
+    chain,
+    tokenType: nft.tokenType || nft.contract.tokenType,
+    description: nft.description || metadata?.description,
+    attributes: Array.isArray(metadata?.attributes) ? metadata.attributes : undefined,
+    floorPrice: typeof nft.contract.openSeaMetadata?.floorPrice === 'number' ? nft.contract.openSeaMetadata.floorPrice : null,
+    acquiredAt: nft.acquiredAt?.blockTimestamp ?? null,
+    lastUpdated: nft.timeLastUpdated,
+  };
+}
+
+export function createAlchemyInventory(
+  dependencies: AlchemyInventoryDependencies = defaultAlchemyInventoryDependencies,
+): AlchemyInventoryStore {
+  const { fetchFn, cache } = dependencies;
+
+  async function fetchInventory(address: string, chain: AlchemyChain): Promise<AlchemyInventory> {
+    const apiKey = process.env.ALCHEMY_API_KEY;
+    if (!apiKey) {
+      throw new AlchemyInventoryError('NO_API_KEY', 'Alchemy API key not configured. Please set ALCHEMY_API_KEY environment variable.');
+    }
+
+    const { network, ordersByTransferTime } = ALCHEMY_NETWORKS[chain];
+    const nfts: ProcessedNFT[] = [];
+    let totalCount = 0;
+    let pageKey: string | null | undefined;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const query = new URLSearchParams({ owner: address, pageSize: String(PAGE_SIZE), withMetadata: 'true' });
+      query.append('excludeFilters[]', 'SPAM');
+      // Newest first, and the only way to get `acquiredAt` back.
+      if (ordersByTransferTime) query.set('orderBy', 'transferTime');
+      if (pageKey) query.set('pageKey', pageKey);
+
+      const response = await fetchFn(`https://${network}.g.alchemy.com/nft/v3/${apiKey}/getNFTsForOwner?${query}`, {
+        headers: { Accept: 'application/json' },
+      });
+      if (!response.ok) {
+        throw new AlchemyInventoryError('API_ERROR', `Alchemy ${network} returned ${response.status}: ${response.statusText}`);
+      }
+
+      const data: AlchemyResponse = await response.json();
+      totalCount = data.totalCount ?? totalCount;
+      nfts.push(...(data.ownedNfts ?? []).map((nft) => toProcessedNft(nft, chain)));
+      pageKey = data.pageKey;
+      if (!pageKey) break;
+    }
+
+    console.log(`[alchemy:${chain}] ${nfts.length}/${totalCount} NFTs for ${address}`);
+    return { address, chain, totalCount: Math.max(totalCount, nfts.length), nfts, complete: !pageKey };
+  }
+
+  return {
+    getInventory: (address, chain) => {
+      const owner = getAddress(address);
+      return cache.get('alchemy', 'inventory', `${chain}:${owner}`, ALCHEMY_INVENTORY_TTL_MS, () =>
+        fetchInventory(owner, chain));
+    },
+  };
+}
+
+export const alchemyInventory = createAlchemyInventory();
@@ -0,0 +1,337 @@
+import { ens_normalize } from '@adraffy/ens-normalize';
+import { ChildFuseKeys, decodeFuses, FullParentFuseKeys } from '@ensdomains/ensjs/utils';
+import { getAddress } from 'viem';
+
+import { AvatarResolver, avatarResolver } from '../avatarResolver';
+import { EnsRecords, EnsResolver, ensResolver } from '../ensResolver';
+import { EnsNameRole, fetchOwnedDomains, getEnsSubgraphUrl, OwnedSubgraphDomain } from '../ensSubgraph';
+import { toGatewayUrl } from '../gateways';
+import { checkReverseRecord, Collector, CollectorError } from './shared';
+
+export type EnsDependencies = {
+  ens: EnsResolver;
+  avatars: Pick<AvatarResolver, 'resolveAvatar'>;
+  fetchFn: typeof fetch;
+  now?: () => Date;
+};
+
+export const defaultEnsDependencies: EnsDependencies = {
+  ens: ensResolver,
+  avatars: avatarResolver,
+  fetchFn: fetch,
+};
+
+// Profile text records read for every name (ENSIP-5 global keys and service keys).
+export const ENS_TEXT_RECORD_KEYS = [
+  'description',
+  'url',
+  'com.twitter',
+  'com.github',
+  'org.telegram',
+  'email',
+  'header',
+  'location',
+] as const;
+
+export type EnsTextRecordKey = (typeof ENS_TEXT_RECORD_KEYS)[number];
+
+// Non-ETH addresses, by address-encoder coin name. EVM chains use their ENSIP-11 coin type
+// (0x80000000 | chainId); ETH itself is the resolved address.
+export const ENS_COIN_LABELS: Record<string, string> = {
+  btc: 'Bitcoin',
+  sol: 'Solana',
+  op: 'Optimism',
+  base: 'Base',
+  arb1: 'Arbitrum',
+  matic: 'Polygon',
+  linea: 'Linea',
+  scr: 'Scroll',
+  zora: 'Zora',
+  gno: 'Gnosis',
+};
+
+const ENSIP11_EVM_BIT = 0x80000000;
+
+export interface EnsCoinAddress {
+  coin: string;
+  label: string;
+  coinType: number;
+  // Set for ENSIP-11 EVM coin types.
+  chainId: number | null;
+  address: string;
+}
+
+export interface EnsContentHash {
+  protocolType: string | null;
+  decoded: string;
+  // Gateway link when the protocol has one.
+  url: string | null;
+}
+
+// .eth registrations can still be renewed (only by the registrant) this long after expiry.
+export const ENS_GRACE_PERIOD_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// `no-expiry` covers names without a registration or wrapper expiry (e.g. unwrapped subnames).
+export type EnsExpiryStatus = 'active' | 'grace-period' | 'expired' | 'no-expiry';
+
+export interface EnsOwnedName {
+  name: string;
+  // ISO timestamps.
+  registeredAt: string | null;
+  expiresAt: string | null;
+  gracePeriodEndsAt: string | null;
+  // As of collection; the card recomputes it from the dates.
+  status: EnsExpiryStatus;
+  wrapped: boolean;
+  // Burned NameWrapper fuses, e.g. `CANNOT_UNWRAP`, `PARENT_CANNOT_CONTROL`.
+  fuses: string[];
+  // Holder of the .eth registration (the NameWrapper token owner for wrapped names).
+  registrant: string | null;
+  // Registry owner, who manages records (the NameWrapper token owner for wrapped names).
+  controller: string | null;
+  resolver: string | null;
+  // How the queried address holds the name.
+  roles: EnsNameRole[];
+  subnameCount: number;
+}
+
+export type EnsNamesStatus = 'complete' | 'incomplete' | 'unavailable';
+
+export interface EnsResult {
+  primaryName: string;
+  // Forward/reverse check: `primaryName` is the address's primary name and resolves back to it.
+  verified: boolean;
+  // The address's primary (reverse) name; null when none is set or it doesn't resolve back.
+  reverseName: string | null;
+  avatar: string | null;
+  otherNames: string[];
+  // Every name returned for the address, with registration details.
+  names: EnsOwnedName[];
+  // `incomplete` when the subgraph listing was cut short; `unavailable` when it is not
+  // configured or failed, so `names` and `otherNames` say nothing about other holdings.
+  namesStatus: EnsNamesStatus;
+  profileUrl: string;
+  texts: Partial<Record<EnsTextRecordKey, string>>;
+  contenthash: EnsContentHash | null;
+  addresses: EnsCoinAddress[];
+}
+
+function toContentHash(contentHash: EnsRecords['contentHash']): EnsContentHash | null {
+  if (!contentHash) return null;
+  const { protocolType, decoded } = contentHash;
+  const url =
+    protocolType === 'ipfs' || protocolType === 'ipns' || protocolType === 'ar' ? toGatewayUrl(`${protocolType}://${decoded}`)
+      : protocolType === 'onion' || protocolType === 'onion3' ? `http://${decoded}.onion`
+        : null;
+  return { protocolType, decoded, url };
+}
+
+function toCoinAddresses(coins: EnsRecords['coins']): EnsCoinAddress[] {
+  return coins.map(({ coin, coinType, address }) => ({
+    coin,
+    label: ENS_COIN_LABELS[coin] ?? coin.toUpperCase(),
+    coinType,
+    chainId: coinType >= ENSIP11_EVM_BIT ? coinType - ENSIP11_EVM_BIT : null,
+    address,
+  }));
+}
+
+const toIsoDate = (seconds: string | null | undefined) =>
+  seconds && Number(seconds) > 0 ? new Date(Number(seconds) * 1000).toISOString() : null;
+
+const toChecksummed = (address: string | null | undefined) => {
+  if (!address) return null;
+  try {
+    return getAddress(address);
+  } catch {
+    return null;
+  }
+};
+
+function toBurnedFuses(fuses: number): string[] {
+  const { parent, child } = decodeFuses(fuses);
+  return [...FullParentFuseKeys.filter((key) => parent[key]), ...ChildFuseKeys.filter((key) => child[key])];
+}
+
+function toOwnedName(domain: OwnedSubgraphDomain, now: Date): EnsOwnedName | null {
+  if (!domain.name) return null;
+  const { registration, wrappedDomain } = domain;
+  const wrapped = Boolean(wrappedDomain);
+
+  // A wrapped .eth name's wrapper expiry already includes the grace period.
+  const expiresAt = toIsoDate(registration?.expiryDate) ?? toIsoDate(wrappedDomain?.expiryDate);
+  const gracePeriodEndsAt = registration && expiresAt
+    ? new Date(new Date(expiresAt).getTime() + ENS_GRACE_PERIOD_DAYS * DAY_MS).toISOString()
+    : null;
+
+  let status: EnsExpiryStatus = 'no-expiry';
+  if (expiresAt) {
+    if (new Date(expiresAt) > now) status = 'active';
+    else if (gracePeriodEndsAt && new Date(gracePeriodEndsAt) > now) status = 'grace-period';
+    else status = 'expired';
+  }
+
+  const wrappedOwner = toChecksummed(wrappedDomain?.owner?.id);
+  return {
+    name: domain.name,
+    registeredAt: toIsoDate(registration?.registrationDate) ?? toIsoDate(domain.createdAt),
+    expiresAt,
+    gracePeriodEndsAt,
+    status,
+    wrapped,
+    fuses: wrappedDomain ? toBurnedFuses(wrappedDomain.fuses) : [],
+    registrant: wrapped ? wrappedOwner : toChecksummed(registration?.registrant?.id),
+    controller: wrapped ? wrappedOwner : toChecksummed(domain.owner?.id),
+    resolver: toChecksummed(domain.resolver?.address),
+    roles: domain.roles,
+    subnameCount: domain.subdomainCount ?? 0,
+  };
+}
+
+let warnedSubgraphUnconfigured = false;
+
+// Fetches the ENS names held by an address, with registration details, from the ENS subgraph
+async function fetchOwnedEnsNames(
+  address: string,
+  fetchFn: typeof fetch,
+  now: Date,
+): Promise<{ names: EnsOwnedName[]; status: EnsNamesStatus }> {
+  const subgraphUrl = getEnsSubgraphUrl();
+  if (!subgraphUrl) {
+    if (!warnedSubgraphUnconfigured) {
+      warnedSubgraphUnconfigured = true;
+      console.warn('ENS subgraph not configured (ENS_SUBGRAPH_URL or THEGRAPH_API_KEY); name enumeration is disabled');
+    }
+    return { names: [], status: 'unavailable' };
+  }
+
+  try {
+    const { domains, complete } = await fetchOwnedDomains(subgraphUrl, fetchFn, address);
+    return {
+      names: domains
+        .map((domain) => toOwnedName(domain, now))
+        .filter((name): name is EnsOwnedName => name !== null),
+      status: complete ? 'complete' : 'incomplete',
+    };
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const errorName = err.name === 'AbortError' ? 'TimeoutError' : err.name;
+    console.error(`Error fetching ENS names from subgraph (${errorName}):`, err);
+    return { names: [], status: 'unavailable' };
+  }
+}
+
+export function createEnsCollector(dependencies: EnsDependencies = defaultEnsDependencies): Collector<EnsResult> {
+  return async function collectEns(queryAddressOrName: string): Promise<EnsResult> {
+    let resolvedEthAddress: `0x${string}` | null = null;
+    let operatingName: string | null = null; // The ENS name we'll use for fetching avatar etc.
+    let avatar: string | null = null;
+    let otherNames: string[] = [];
+    let names: EnsOwnedName[] = [];
+    let namesStatus: EnsNamesStatus = 'unavailable';
+    let reverseName: string | null = null;
+    let verified = false;
+    let records: EnsRecords = { texts: {}, coins: [], contentHash: null };
+
+    const isEnsNameSyntax = (name: string) => name.includes('.') && !name.startsWith('0x');
+
+    if (!isEnsNameSyntax(queryAddressOrName) && !queryAddressOrName.startsWith('0x')) {
+      throw new CollectorError(400, 'Invalid address or ENS name format');
+    }
+
+    try {
+      if (isEnsNameSyntax(queryAddressOrName)) {
+        try {
+          operatingName = ens_normalize(queryAddressOrName);
+        } catch {
+          throw new CollectorError(400, 'Invalid ENS name');
+        }
+        try {
+          resolvedEthAddress = await dependencies.ens.resolveName(operatingName) as `0x${string}` | null;
+          if (!resolvedEthAddress) {
+            console.warn(`Could not resolve ENS name ${operatingName} to an ETH address.`);
+          }
+        } catch (error) {
+          console.error(`Error resolving ENS name ${operatingName} to ETH address:`, error);
+        }
+      } else {
+        resolvedEthAddress = queryAddressOrName as `0x${string}`;
+      }
+
+      // Looked up for name inputs too: `verified` needs the address's own primary name.
+      const primaryNamePromise = resolvedEthAddress
+        ? checkReverseRecord(dependencies.ens, resolvedEthAddress)
+        : Promise.resolve({ reverseName: null, verified: false });
+
+      const allNamesPromise = resolvedEthAddress
+        ? fetchOwnedEnsNames(resolvedEthAddress, dependencies.fetchFn, dependencies.now?.() ?? new Date())
+        : Promise.resolve({ names: [], status: 'unavailable' as const });
+
+      const [primaryNameResult, allNamesResult] = await Promise.allSettled([primaryNamePromise, allNamesPromise]);
+
+      if (primaryNameResult.status === 'fulfilled') {
+        reverseName = primaryNameResult.value.reverseName;
+        // A queried name is verified only if it is the address's primary name.
+        verified = primaryNameResult.value.verified && (!operatingName || operatingName === reverseName);
+        if (!operatingName && verified) operatingName = reverseName;
+      } else {
+        console.error(`Error looking up primary name of ${resolvedEthAddress}:`, primaryNameResult.reason);
+      }
+
+      if (allNamesResult.status === 'fulfilled') {
+        ({ names, status: namesStatus } = allNamesResult.value);
+        const allNamesForAddress = names.map(({ name }) => name);
+        otherNames = operatingName
+          ? allNamesForAddress.filter(name => name.toLowerCase() !== operatingName?.toLowerCase())
+          : allNamesForAddress;
+      }
+
+      if (operatingName) {
+        // ENSIP-12: URI and NFT avatars, resolved to a gateway URL (or data: URI).
+        try {
+          avatar = (await dependencies.avatars.resolveAvatar(operatingName))?.url ?? null;
+        } catch (error) {
+          console.error(`Error getting avatar for ${operatingName}:`, error);
+        }
+
+        try {
+          records = await dependencies.ens.getRecords(operatingName, {
+            texts: ENS_TEXT_RECORD_KEYS,
+            coins: Object.keys(ENS_COIN_LABELS),
+            contentHash: true,
+          });
+        } catch (error) {
+          console.error(`Error getting records for ${operatingName}:`, error);
+        }
+      }
+
+      const profileUrl = operatingName
+        ? `https://app.ens.domains/name/${operatingName}`
+        : (resolvedEthAddress ? `https://app.ens.domains/address/${resolvedEthAddress}` : '');
+
+      const responseData: EnsResult = {
+        primaryName: operatingName || (isEnsNameSyntax(queryAddressOrName) ? queryAddressOrName : null) || (resolvedEthAddress ? "No primary ENS name set" : "ENS data not found"),
+        avatar,
+        otherNames,
+        names,
+        namesStatus,
+        verified,
+        reverseName,
+        profileUrl,
+        texts: records.texts as EnsResult['texts'],
+        contenthash: toContentHash(records.contentHash),
+        addresses: toCoinAddresses(records.coins),
+      };
+
+      console.log('ENS API result:', JSON.stringify(responseData, null, 2));
+      return responseData;
+
+    } catch (error) {
+      if (error instanceof CollectorError) throw error;
+      console.error('Error fetching ENS data:', error);
+      throw new CollectorError(500, 'Failed to fetch ENS data. Please check your configuration.');
+    }
+  };
+}
@@ -0,0 +1,354 @@
+import { withCircuitBreaker } from '../circuitBreaker';
+import { EnsResolver, ensResolver } from '../ensResolver';
+import { createFarcasterHubClient, FarcasterHubClient } from '../farcasterHub';
+import { Collector, CollectorError, resolveCollectorAddress } from './shared';
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null;
+}
+
+export type FarcasterDependencies = {
+  ens: Pick<EnsResolver, 'resolveName'>;
+  fetchFn: typeof fetch;
+};
+
+export const defaultFarcasterDependencies: FarcasterDependencies = {
+  ens: ensResolver,
+  fetchFn: withCircuitBreaker('neynar'),
+};
+
+export type FarcasterSource = { kind: 'neynar'; apiKey: string } | { kind: 'hub'; url: string };
+
+/**
+ * Picks where Farcaster data comes from. `FARCASTER_DATA_SOURCE` (`neynar` or `hub`) chooses
+ * explicitly; otherwise Neynar is used when `NEYNAR_API_KEY` is set, then a hub when
+ * `FARCASTER_HUB_URL` is. Returns null when neither is configured.
+ */
+export function getFarcasterSource(env: Record<string, string | undefined> = process.env): FarcasterSource | null {
+  const requested = env.FARCASTER_DATA_SOURCE?.trim().toLowerCase();
+  if (requested && requested !== 'neynar' && requested !== 'hub') {
+    throw new CollectorError(500, `Unknown FARCASTER_DATA_SOURCE "${env.FARCASTER_DATA_SOURCE}". Expected neynar or hub.`);
+  }
+
+  if (requested === 'hub' || (!requested && !env.NEYNAR_API_KEY && env.FARCASTER_HUB_URL)) {
+    if (!env.FARCASTER_HUB_URL) {
+      throw new CollectorError(500, 'FARCASTER_DATA_SOURCE is hub but FARCASTER_HUB_URL is not set.');
+    }
+    return { kind: 'hub', url: env.FARCASTER_HUB_URL };
+  }
+  if (env.NEYNAR_API_KEY) return { kind: 'neynar', apiKey: env.NEYNAR_API_KEY };
+  if (requested === 'neynar') {
+    throw new CollectorError(500, 'Neynar API key not configured. Please set NEYNAR_API_KEY environment variable.');
+  }
+  return null;
+}
+
+// How an account is tied to the looked-up address.
+export type FarcasterAddressRelationship = 'custody' | 'verified';
+
+export interface FarcasterAccount {
+  fid?: number;
+  username?: string;
+  farname?: string;
+  basename?: string;
+  displayName?: string;
+  createdAt: string;
+  custodyAddress?: string;
+  relationship: FarcasterAddressRelationship;
+  connectedAddresses: string[];
+  verifiedAddresses: {
+    ethAddresses: string[];
+    solAddresses: string[];
+    ensDomains: string[];
+  };
+  connectedAccounts: Array<{ platform: string; username: string }>;
+  pfpUrl?: string;
+  bio?: string;
+  followerCount: number;
+  followingCount: number;
+  // Neynar-only signals; absent when the data comes from a hub.
+  powerBadge?: boolean;
+  neynarScore?: number;
+  profileUrl?: string;
+}
+
+// The primary account's fields at the top level, plus every account found for the address.
+export interface FarcasterResult extends FarcasterAccount {
+  source: FarcasterSource['kind'];
+  walletAddress: string;
+  resolvedAddress: string;
+  accounts: FarcasterAccount[];
+}
+
+// Builds one account from a Neynar user object; `resolvedAddress` is the address it was found by.
+function toFarcasterAccount(user: UnknownRecord, resolvedAddress: string): FarcasterAccount {
+  const readNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+  const readStrings = (value: unknown) =>
+    (Array.isArray(value) ? value : []).filter((item): item is string => typeof item === 'string');
+
+  // Calculate a simple Neynar score based on available metrics
+  // Note: The API now includes a 'score' field directly, but let's also calculate our own for consistency
+  const followerCount = readNumber(user.follower_count);
+  const followingCount = readNumber(user.following_count);
+  const powerBadge = user.power_badge === true;
+
+  const verifiedAddressesRaw = isRecord(user.verified_addresses) ? user.verified_addresses : {};
+  const ethAddresses = readStrings(verifiedAddressesRaw.eth_addresses);
+  const solAddresses = readStrings(verifiedAddressesRaw.sol_addresses);
+  const ensDomains = readStrings(verifiedAddressesRaw.ens_domains);
+  const verificationAddresses = readStrings(user.verifications);
+
+  // Use the official Neynar score if available, otherwise calculate our own
+  let neynarScore = readNumber(user.score) || (isRecord(user.experimental) ? readNumber(user.experimental.neynar_user_score) : 0);
+
+  // If no official score, calculate our simplified version
+  if (!neynarScore) {
+    neynarScore += Math.min(followerCount / 1000, 0.4); // Up to 0.4 for followers
+    neynarScore += Math.min(followingCount / 500, 0.2);  // Up to 0.2 for following
+    neynarScore += powerBadge ? 0.3 : 0;                 // 0.3 for power badge
+    neynarScore += ethAddresses.length > 0 ? 0.1 : 0;    // 0.1 for verified addresses
+    neynarScore = Math.min(neynarScore, 1.0); // Cap at 1.0
+  }
+
+  const fid = typeof user.fid === 'number' ? user.fid : undefined;
+  const username = typeof user.username === 'string' ? user.username : undefined;
+  const custodyAddress = typeof user.custody_address === 'string' ? user.custody_address : undefined;
+  const createdAt = typeof user.created_at === 'string' || typeof user.created_at === 'number'
+    ? new Date(user.created_at)
+    : null;
+
+  const farname = typeof user.fname === 'string' ? user.fname : username;
+
+  const basename = (() => {
+    const direct = user.basename;
+    if (typeof direct === 'string') return direct;
+    return ensDomains.find((name) => name.toLowerCase().endsWith('.base.eth'));
+  })();
+
+  const profileUrl = username
+    ? `https://warpcast.com/${username}`
+    : (fid ? `https://warpcast.com/~/profiles/${fid}` : undefined);
+
+  const pfpUrl = typeof user.pfp_url === 'string' ? user.pfp_url : undefined;
+  const bio = (() => {
+    const profile = user.profile;
+    if (!isRecord(profile)) return undefined;
+    const profileBio = profile.bio;
+    if (!isRecord(profileBio)) return undefined;
+    return typeof profileBio.text === 'string' ? profileBio.text : undefined;
+  })();
+
+  const connectedAccounts = (() => {
+    const accounts: Array<{ platform: string; username: string }> = [];
+    const candidates = ['verified_accounts', 'connected_accounts'] as const;
+
+    for (const key of candidates) {
+      const value = user[key];
+      if (!isRecord(value)) continue;
+
+      for (const [platform, accountValue] of Object.entries(value)) {
+        if (typeof accountValue === 'string') {
+          accounts.push({ platform, username: accountValue });
+          continue;
+        }
+
+        if (!isRecord(accountValue)) continue;
+        const username =
+          typeof accountValue.username === 'string'
+            ? accountValue.username
+            : (typeof accountValue.handle === 'string' ? accountValue.handle : undefined);
+
+        if (username) accounts.push({ platform, username });
+      }
+    }
+
+    // Deduplicate by platform+username
+    const seen = new Set<string>();
+    return accounts.filter((account) => {
+      const key = `${account.platform}:${account.username}`.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  })();
+
+  return {
+    fid,
+    username,
+    farname,
+    basename,
+    displayName: (typeof user.display_name === 'string' && user.display_name) || username,
+    createdAt: createdAt && !Number.isNaN(createdAt.getTime()) ? createdAt.toISOString() : new Date().toISOString(),
+    custodyAddress,
+    relationship: custodyAddress?.toLowerCase() === resolvedAddress.toLowerCase() ? 'custody' : 'verified',
+    connectedAddresses: ethAddresses.length > 0 ? ethAddresses : verificationAddresses,
+    verifiedAddresses: {
+      ethAddresses,
+      solAddresses,
+      ensDomains,
+    },
+    connectedAccounts,
+    pfpUrl,
+    bio,
+    followerCount: followerCount,
+    followingCount: followingCount,
+    powerBadge: powerBadge,
+    neynarScore: neynarScore,
+    profileUrl,
+  };
+}
+
+/**
+ * Orders the accounts found for an address, primary first. The primary account is the one
+ * whose custody address is the looked-up address; if none (or several) are, the account with
+ * the most followers wins, then the lowest (oldest) FID.
+ */
+export function sortFarcasterAccounts(accounts: FarcasterAccount[]): FarcasterAccount[] {
+  return [...accounts].sort((a, b) =>
+    Number(b.relationship === 'custody') - Number(a.relationship === 'custody')
+    || b.followerCount - a.followerCount
+    || (a.fid ?? Number.MAX_SAFE_INTEGER) - (b.fid ?? Number.MAX_SAFE_INTEGER));
+}
+
+async function fetchNeynarAccounts(fetchFn: typeof fetch, apiKey: string, resolvedAddress: string): Promise<FarcasterAccount[]> {
+  try {
+    // First, get user by verified address (now using resolved address)
+    const userResponse = await fetchFn(`https://api.neynar.com/v2/farcaster/user/bulk-by-address?addresses=${resolvedAddress}`, {
+      headers: {
+        'accept': 'application/json',
+        'x-api-key': apiKey,
+      },
+    });
+
+    if (!userResponse.ok) {
+      // Check for invalid API key specifically
+      if (userResponse.status === 401) {
+        throw new CollectorError(500, 'Invalid Neynar API key. Please check your NEYNAR_API_KEY environment variable.');
+      }
+      if (userResponse.status === 403) {
+        throw new CollectorError(500, 'Neynar API key access denied. Please verify your API key permissions.');
+      }
+      if (userResponse.status === 404) {
+        return [];
+      }
+
+      // Try to get more details about the error
+      let errorMessage = `Neynar API error: ${userResponse.status}`;
+      try {
+        const errorData = await userResponse.json();
+        if (errorData.message) {
+          errorMessage += ` - ${errorData.message}`;
+        }
+      } catch {
+        // Ignore JSON parsing errors for error responses
+      }
+
+      throw new Error(errorMessage);
+    }
+
+    const userData = await userResponse.json();
+
+    // The bulk-by-address endpoint returns an object with address keys (in lowercase), each
+    // listing every account that has the address as custody or verified address.
+    const usersByAddress: unknown[] = Array.isArray(userData[resolvedAddress.toLowerCase()])
+      ? userData[resolvedAddress.toLowerCase()]
+      : [];
+    const seenFids = new Set<number>();
+    return usersByAddress
+      .filter(isRecord)
+      .filter((user) => {
+        if (typeof user.fid !== 'number') return true;
+        if (seenFids.has(user.fid)) return false;
+        seenFids.add(user.fid);
+        return true;
+      })
+      .map((user) => toFarcasterAccount(user, resolvedAddress));
+  } catch (error) {
+    if (error instanceof CollectorError) throw error;
+    console.error('Error fetching Farcaster data:', error);
+
+    // Check if the error message contains API key related issues
+    const errorMessage = error instanceof Error ? error.message.toLowerCase() : '';
+    if (errorMessage.includes('unauthorized') || errorMessage.includes('401') ||
+      errorMessage.includes('forbidden') || errorMessage.includes('403') ||
+      errorMessage.includes('invalid api key') || errorMessage.includes('api key')) {
+      throw new CollectorError(500, 'Invalid or expired Neynar API key. Please check your NEYNAR_API_KEY environment variable.');
+    }
+
+    throw new CollectorError(500, 'Failed to fetch Farcaster data. Please check your API key and try again.');
+  }
+}
+
+async function fetchHubAccounts(hub: FarcasterHubClient, resolvedAddress: string): Promise<FarcasterAccount[]> {
+  try {
+    const registration = await hub.getCustodyRegistration(resolvedAddress);
+    if (!registration) return [];
+
+    const { fid } = registration;
+    const [userData, verifications, followerCount, followingCount] = await Promise.all([
+      hub.getUserData(fid),
+      hub.getVerifications(fid),
+      hub.countFollowers(fid),
+      hub.countFollowing(fid),
+    ]);
+
+    return [{
+      fid,
+      username: userData.username,
+      farname: userData.username,
+      basename: userData.username?.toLowerCase().endsWith('.base.eth') ? userData.username : undefined,
+      displayName: userData.display ?? userData.username,
+      createdAt: registration.registeredAt ?? new Date().toISOString(),
+      custodyAddress: registration.custodyAddress,
+      relationship: 'custody',
+      connectedAddresses: verifications.ethAddresses,
+      verifiedAddresses: { ...verifications, ensDomains: [] },
+      connectedAccounts: [],
+      pfpUrl: userData.pfp,
+      bio: userData.bio,
+      followerCount,
+      followingCount,
+      profileUrl: userData.username ? `https://warpcast.com/${userData.username}` : `https://warpcast.com/~/profiles/${fid}`,
+    }];
+  } catch (error) {
+    console.error('Error fetching Farcaster data from hub:', error);
+    throw new CollectorError(500, 'Failed to fetch Farcaster data from the configured hub. Please check FARCASTER_HUB_URL.');
+  }
+}
+
+export function createFarcasterCollector(
+  dependencies: FarcasterDependencies = defaultFarcasterDependencies,
+): Collector<FarcasterResult | null> {
+  return async function collectFarcaster(address: string): Promise<FarcasterResult | null> {
+    // Avoid logging secrets in production.
+    if (process.env.NODE_ENV !== 'production') {
+      console.log(`[farcaster.ts:debug] Collecting for ${address}`);
+      console.log(`[farcaster.ts:debug] NEYNAR_API_KEY present: ${Boolean(process.env.NEYNAR_API_KEY)}, FARCASTER_HUB_URL present: ${Boolean(process.env.FARCASTER_HUB_URL)}`);
+    }
+
+    const resolvedAddress = await resolveCollectorAddress(address, dependencies.ens);
+
+    const source = getFarcasterSource();
+    if (!source) {
+      throw new CollectorError(500, 'Farcaster data source not configured. Please set NEYNAR_API_KEY, or FARCASTER_HUB_URL to read from a Farcaster hub.');
+    }
+
+    const accounts = sortFarcasterAccounts(source.kind === 'hub'
+      ? await fetchHubAccounts(createFarcasterHubClient(source.url, dependencies.fetchFn), resolvedAddress)
+      : await fetchNeynarAccounts(dependencies.fetchFn, source.apiKey, resolvedAddress));
+
+    if (accounts.length === 0) {
+      return null;
+    }
+
+    return {
+      ...accounts[0],
+      source: source.kind,
+      walletAddress: resolvedAddress,
+      resolvedAddress: resolvedAddress, // Include the resolved address for debugging
+      accounts,
+    };
+  };
+}
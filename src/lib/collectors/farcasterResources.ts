@@ -0,0 +1,202 @@
+import { getAddress } from 'viem';
+
+import { withCircuitBreaker } from '../circuitBreaker';
+import { EnsResolver, ensResolver } from '../ensResolver';
+import { SubresourceCache, subresourceCache, SubresourceResult } from '../subresourceCache';
+import { CollectorError, resolveCollectorAddress } from './shared';
+
+// Optional Farcaster data loaded when a profile's card section is opened, on top of the
+// profile collected by `farcaster.ts`. Each resource is cached per fid with its own TTL.
+
+export type FarcasterResource = 'casts' | 'channels' | 'mutuals';
+
+export const FARCASTER_RESOURCES: FarcasterResource[] = ['casts', 'channels', 'mutuals'];
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export const FARCASTER_RESOURCE_TTL_MS: Record<FarcasterResource, number> = {
+  casts: 10 * MINUTE,
+  channels: 6 * HOUR,
+  mutuals: 1 * HOUR,
+};
+
+const CAST_LIMIT = 10;
+const CHANNEL_LIMIT = 10;
+const MUTUAL_SAMPLE_SIZE = 5;
+
+export interface FarcasterCast {
+  hash: string;
+  text: string;
+  timestamp: string;
+  url: string;
+  channel: string | null;
+  // Links and quoted casts attached to the cast.
+  embeds: Array<{ url: string } | { castHash: string }>;
+  reactions: {
+    likes: number;
+    recasts: number;
+    replies: number;
+  };
+}
+
+export interface FarcasterChannel {
+  id: string;
+  name: string;
+  imageUrl: string | null;
+  followerCount: number | null;
+  url: string;
+}
+
+export interface FarcasterMutuals {
+  viewerAddress: string;
+  // Null when the viewer address has no Farcaster account.
+  viewerFid: number | null;
+  viewerFollows: boolean;
+  followsViewer: boolean;
+  // How many followers of the profile that the viewer also follows Neynar listed. Neynar
+  // truncates that list and reports no total, so this is a lower bound, not a count.
+  mutualFollowersListed: number;
+  sample: Array<{ fid: number; username: string }>;
+}
+
+export type FarcasterResourceDependencies = {
+  ens: Pick<EnsResolver, 'resolveName'>;
+  fetchFn: typeof fetch;
+  cache: SubresourceCache;
+};
+
+export const defaultFarcasterResourceDependencies: FarcasterResourceDependencies = {
+  ens: ensResolver,
+  fetchFn: withCircuitBreaker('neynar'),
+  cache: subresourceCache,
+};
+
+export interface FarcasterResources {
+  getCasts: (fid: number) => Promise<SubresourceResult<FarcasterCast[]>>;
+  getChannels: (fid: number) => Promise<SubresourceResult<FarcasterChannel[]>>;
+  getMutuals: (fid: number, viewer: string) => Promise<SubresourceResult<FarcasterMutuals>>;
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null;
+}
+
+const asNumber = (value: unknown) => (typeof value === 'number' ? value : 0);
+
+function toCast(cast: UnknownRecord): FarcasterCast {
+  const author = isRecord(cast.author) ? cast.author : {};
+  const hash = String(cast.hash ?? '');
+  const reactions = isRecord(cast.reactions) ? cast.reactions : {};
+  const replies = isRecord(cast.replies) ? cast.replies : {};
+  const embeds = (Array.isArray(cast.embeds) ? cast.embeds : [])
+    .map((embed): FarcasterCast['embeds'][number] | null => {
+      if (!isRecord(embed)) return null;
+      if (typeof embed.url === 'string') return { url: embed.url };
+      if (isRecord(embed.cast_id) && typeof embed.cast_id.hash === 'string') return { castHash: embed.cast_id.hash };
+      return null;
+    })
+    .filter((embed): embed is FarcasterCast['embeds'][number] => embed !== null);
+
+  return {
+    hash,
+    text: typeof cast.text === 'string' ? cast.text : '',
+    timestamp: typeof cast.timestamp === 'string' ? cast.timestamp : '',
+    url: typeof author.username === 'string'
+      ? `https://warpcast.com/${author.username}/${hash.slice(0, 10)}`
+      : `https://warpcast.com/~/conversations/${hash}`,
+    channel: isRecord(cast.channel) && typeof cast.channel.id === 'string' ? cast.channel.id : null,
+    embeds,
+    reactions: {
+      likes: asNumber(reactions.likes_count),
+      recasts: asNumber(reactions.recasts_count),
+      replies: asNumber(replies.count),
+    },
+  };
+}
+
+function toChannel(channel: UnknownRecord): FarcasterChannel {
+  const id = String(channel.id ?? '');
+  return {
+    id,
+    name: typeof channel.name === 'string' ? channel.name : id,
+    imageUrl: typeof channel.image_url === 'string' ? channel.image_url : null,
+    followerCount: typeof channel.follower_count === 'number' ? channel.follower_count : null,
+    url: typeof channel.url === 'string' ? channel.url : `https://warpcast.com/~/channel/${id}`,
+  };
+}
+
+export function createFarcasterResources(
+  dependencies: FarcasterResourceDependencies = defaultFarcasterResourceDependencies,
+): FarcasterResources {
+  const { ens, fetchFn, cache } = dependencies;
+
+  // A 404 yields an empty object: Neynar answers it for addresses without an account.
+  async function neynarGet(path: string, params: Record<string, string | number>): Promise<UnknownRecord> {
+    const apiKey = process.env.NEYNAR_API_KEY;
+    if (!apiKey) {
+      throw new CollectorError(500, 'Neynar API key not configured. Please set NEYNAR_API_KEY environment variable.');
+    }
+    const query = new URLSearchParams(Object.entries(params).map(([key, value]) => [key, String(value)]));
+    const response = await fetchFn(`https://api.neynar.com/v2/farcaster/${path}?${query}`, {
+      headers: { accept: 'application/json', 'x-api-key': apiKey },
+    });
+    if (response.status === 404) return {};
+    if (!response.ok) {
+      throw new Error(`Neynar ${path} responded ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async function fetchMutuals(fid: number, viewerAddress: string): Promise<FarcasterMutuals> {
+    const byAddress = await neynarGet('user/bulk-by-address', { addresses: viewerAddress });
+    const viewerUsers = byAddress[viewerAddress.toLowerCase()];
+    const viewer = Array.isArray(viewerUsers) && isRecord(viewerUsers[0]) ? viewerUsers[0] : null;
+    const viewerFid = viewer && typeof viewer.fid === 'number' ? viewer.fid : null;
+    if (viewerFid === null) {
+      return { viewerAddress, viewerFid, viewerFollows: false, followsViewer: false, mutualFollowersListed: 0, sample: [] };
+    }
+
+    const [bulk, relevant] = await Promise.all([
+      neynarGet('user/bulk', { fids: fid, viewer_fid: viewerFid }),
+      neynarGet('followers/relevant', { target_fid: fid, viewer_fid: viewerFid }),
+    ]);
+    const target = Array.isArray(bulk.users) && isRecord(bulk.users[0]) ? bulk.users[0] : {};
+    const context = isRecord(target.viewer_context) ? target.viewer_context : {};
+    const followers = (Array.isArray(relevant.all_relevant_followers_dehydrated) ? relevant.all_relevant_followers_dehydrated : [])
+      .map((entry) => (isRecord(entry) && isRecord(entry.user) ? entry.user : null))
+      .filter((user): user is UnknownRecord => user !== null && typeof user.fid === 'number');
+
+    return {
+      viewerAddress,
+      viewerFid,
+      viewerFollows: context.following === true,
+      followsViewer: context.followed_by === true,
+      mutualFollowersListed: followers.length,
+      sample: followers.slice(0, MUTUAL_SAMPLE_SIZE).map((user) => ({
+        fid: user.fid as number,
+        username: typeof user.username === 'string' ? user.username : `fid:${user.fid}`,
+      })),
+    };
+  }
+
+  return {
+    getCasts: (fid) =>
+      cache.get('farcaster', 'casts', String(fid), FARCASTER_RESOURCE_TTL_MS.casts, async () => {
+        const data = await neynarGet('feed/user/casts', { fid, limit: CAST_LIMIT, include_replies: 'false' });
+        return (Array.isArray(data.casts) ? data.casts : []).filter(isRecord).map(toCast);
+      }),
+    getChannels: (fid) =>
+      cache.get('farcaster', 'channels', String(fid), FARCASTER_RESOURCE_TTL_MS.channels, async () => {
+        const data = await neynarGet('channel/user-active', { fid, limit: CHANNEL_LIMIT });
+        return (Array.isArray(data.channels) ? data.channels : []).filter(isRecord).map(toChannel);
+      }),
+    getMutuals: async (fid, viewer) => {
+      const viewerAddress = getAddress(await resolveCollectorAddress(viewer, ens));
+      return cache.get('farcaster', 'mutuals', `${fid}:${viewerAddress}`, FARCASTER_RESOURCE_TTL_MS.mutuals, () =>
+        fetchMutuals(fid, viewerAddress));
+    },
+  };
+}
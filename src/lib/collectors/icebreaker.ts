@@ -0,0 +1,167 @@
+import { EnsResolver, ensResolver } from '../ensResolver';
+import { checkReverseRecord, Collector, CollectorError } from './shared';
+
+const ICEBREAKER_API = 'https://app.icebreaker.xyz/api/v1';
+
+// Helper function to check if a string is an ENS name
+function isENSName(address: string): boolean {
+  return address.toLowerCase().endsWith('.eth');
+}
+
+export interface IcebreakerResult {
+  profileID?: string;
+  walletAddress?: string;
+  displayName?: string;
+  bio?: string;
+  location?: string;
+  avatarUrl?: string;
+  socialIdentities: Array<{ platform: string; username: string; verified: boolean; url?: string }>;
+  credentials: Array<{ name: string; chain?: string; source?: string; reference?: string }>;
+  profileUrl?: string;
+  verifiedChannelsCount: number;
+  totalChannelsCount: number;
+  credentialsCount: number;
+}
+
+// The parts of an Icebreaker API profile the collector reads.
+interface IcebreakerProfile {
+  profileID?: string;
+  walletAddress?: string;
+  displayName?: string;
+  bio?: string;
+  location?: string;
+  avatarUrl?: string;
+  channels?: Array<{ type: string; value: string; isVerified: boolean; url?: string }>;
+  credentials?: Array<{ name: string; chain?: string; source?: string; reference?: string }>;
+}
+
+export type IcebreakerDependencies = {
+  fetchFn: typeof fetch;
+  ens: Pick<EnsResolver, 'lookupAddress' | 'resolveName'>;
+};
+
+export const defaultIcebreakerDependencies: IcebreakerDependencies = {
+  fetchFn: fetch,
+  ens: ensResolver,
+};
+
+export function createIcebreakerCollector(
+  dependencies: IcebreakerDependencies = defaultIcebreakerDependencies,
+): Collector<IcebreakerResult | null> {
+  const { fetchFn: fetch, ens } = dependencies;
+
+  // The `profiles` Icebreaker returns for `path`, or null when it answers 404.
+  async function fetchProfiles(path: string): Promise<IcebreakerProfile[] | null> {
+    const apiUrl = `${ICEBREAKER_API}/${path}`;
+    console.log(`Fetching Icebreaker data from: ${apiUrl}`);
+
+    // Icebreaker API is publicly accessible and doesn't require an API key
+    const response = await fetch(apiUrl, {
+      headers: {
+        'accept': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        return null;
+      }
+      console.error(`Icebreaker API error: ${response.status} ${response.statusText}`);
+      throw new Error(`Icebreaker API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    console.log('Icebreaker raw response:', JSON.stringify(data, null, 2));
+    return data && Array.isArray(data.profiles) ? data.profiles : [];
+  }
+
+  // Profiles are looked up by wallet first. Profiles Icebreaker only links to an ENS name are
+  // then found through the address's verified primary name, since the sync worker always
+  // passes the checksummed address rather than the name the profile was visited by.
+  async function fetchAddressProfiles(address: string): Promise<IcebreakerProfile[] | null> {
+    const byAddress = await fetchProfiles(`eth/${address}`);
+    if (byAddress && byAddress.length > 0) return byAddress;
+
+    const { reverseName } = await checkReverseRecord(ens, address).catch((error) => {
+      console.warn(`[icebreaker] Primary name lookup failed for ${address}:`, error);
+      return { reverseName: null };
+    });
+    if (!reverseName) return byAddress;
+
+    const byName = await fetchProfiles(`ens/${reverseName}`);
+    return byName && byName.length > 0 ? byName : byAddress;
+  }
+
+  return async function collectIcebreaker(address: string): Promise<IcebreakerResult | null> {
+    try {
+      const profiles = isENSName(address) ? await fetchProfiles(`ens/${address}`) : await fetchAddressProfiles(address);
+      if (profiles === null) {
+        return null;
+      }
+
+      // Check if we have profiles data
+      if (profiles.length === 0) {
+        console.log('Icebreaker returned no profiles, returning empty result');
+        return {
+          socialIdentities: [],
+          credentials: [],
+          verifiedChannelsCount: 0,
+          totalChannelsCount: 0,
+          credentialsCount: 0
+        };
+      }
+
+      // Get the first profile (there might be multiple, but we'll use the first one)
+      const profile = profiles[0];
+
+      // Extract social identities from channels
+      const socialIdentities = profile.channels?.map((channel: {
+        type: string;
+        value: string;
+        isVerified: boolean;
+        url?: string;
+      }) => ({
+        platform: channel.type.toLowerCase(),
+        username: channel.value,
+        verified: channel.isVerified,
+        url: channel.url
+      })) || [];
+
+      // Extract credentials information
+      const credentials = profile.credentials?.map((credential: {
+        name: string;
+        chain?: string;
+        source?: string;
+        reference?: string;
+      }) => ({
+        name: credential.name,
+        chain: credential.chain,
+        source: credential.source,
+        reference: credential.reference
+      })) || [];
+
+      // Build the response
+      const icebreakerData: IcebreakerResult = {
+        profileID: profile.profileID,
+        walletAddress: profile.walletAddress,
+        displayName: profile.displayName,
+        bio: profile.bio,
+        location: profile.location,
+        avatarUrl: profile.avatarUrl,
+        socialIdentities,
+        credentials,
+        profileUrl: `https://app.icebreaker.xyz/profiles/${profile.profileID}`,
+        verifiedChannelsCount: socialIdentities.filter((identity: { verified: boolean }) => identity.verified).length,
+        totalChannelsCount: socialIdentities.length,
+        credentialsCount: credentials.length
+      };
+
+      console.log('Formatted Icebreaker data:', JSON.stringify(icebreakerData, null, 2));
+
+      return icebreakerData;
+    } catch (error) {
+      console.error('Error fetching Icebreaker data:', error);
+      throw new CollectorError(500, 'Failed to fetch Icebreaker data. The service may be temporarily unavailable.');
+    }
+  };
+}
@@ -0,0 +1,51 @@
+import type { ServiceName } from '../cacheStore';
+import { withUpstreamAddress } from '../circuitBreaker';
+import { createAlchemyCollector } from './alchemy';
+import { createDeBankCollector } from './debank';
+import { createDecentralandCollector } from './decentraland';
+import { createEnsCollector } from './ens';
+import { createFarcasterCollector } from './farcaster';
+import { createGitcoinPassportCollector } from './gitcoin-passport';
+import { createIcebreakerCollector } from './icebreaker';
+import { createOpenSeaCollector } from './opensea';
+import { Collector, withTimeout } from './shared';
+import { createXmtpCollector } from './xmtp';
+import { createZerionCollector } from './zerion';
+
+export { CollectorError } from './shared';
+export type { Collector } from './shared';
+
+/**
+ * Every service in `SERVICES_CONFIG`, wired to its default dependencies. The sync
+ * worker calls these directly; the `/api/services/*` routes wrap the same factories.
+ */
+export const collectorRegistry: Record<ServiceName, Collector<unknown>> = {
+  ens: createEnsCollector(),
+  xmtp: createXmtpCollector(),
+  farcaster: createFarcasterCollector(),
+  alchemy: createAlchemyCollector(),
+  opensea: createOpenSeaCollector(),
+  debank: createDeBankCollector(),
+  zerion: createZerionCollector(),
+  icebreaker: createIcebreakerCollector(),
+  'gitcoin-passport': createGitcoinPassportCollector(),
+  decentraland: createDecentralandCollector(),
+};
+
+export function getCollector(name: string): Collector<unknown> | null {
+  return Object.prototype.hasOwnProperty.call(collectorRegistry, name)
+    ? collectorRegistry[name as ServiceName]
+    : null;
+}
+
+/**
+ * Runs a service's collector, rejecting with a `TimeoutError` once `timeoutMs` has passed.
+ * The collector itself is not cancelled; its late result is simply ignored.
+ */
+export async function runCollector(name: ServiceName, address: string, timeoutMs: number): Promise<unknown> {
+  const collect = getCollector(name);
+  if (!collect) {
+    throw new Error(`No collector registered for service ${name}`);
+  }
+  return withTimeout(withUpstreamAddress(address, () => collect(address)), timeoutMs, `Timeout fetching ${name} after ${timeoutMs}ms`);
+}
@@ -0,0 +1,361 @@
+import { withCircuitBreaker } from '../circuitBreaker';
+import { EnsResolver, ensResolver } from '../ensResolver';
+import { OpenSeaCollectionStats, openSeaPrices, OpenSeaPriceStore } from './openseaPrices';
+import { Collector, resolveCollectorAddress } from './shared';
+
+// OpenSea's maximum page size; wallets beyond MAX_PAGES pages are valued on what was read.
+const PAGE_SIZE = 200;
+const MAX_PAGES = 10;
+
+// Collection stats are one OpenSea request each (unless cached): at most this many run at
+// once, and only the collections holding the most NFTs are priced in a single run.
+const STATS_CONCURRENCY = 5;
+const MAX_PRICED_COLLECTIONS = 50;
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null;
+}
+
+interface ValuedNFT {
+  name: string;
+  collection: string;
+  image: string;
+  floorPrice: number;
+  lastSalePrice?: number;
+  currency: string;
+  permalink: string;
+  rarity?: string;
+  // The collection floor: what the NFT would fetch if sold right away.
+  estimatedValue: number;
+  estimatedValueUsd: number | null;
+}
+
+interface MarketStats {
+  totalEstimatedValue: number;
+  totalFloorValue: number;
+  uniqueCollections: number;
+  totalNFTs: number;
+  topCollectionsByValue: Array<{
+    name: string;
+    count: number;
+    floorPrice: number;
+    totalValue: number;
+    sevenDayVolume: number | null;
+  }>;
+}
+
+export interface OpenSeaResult {
+  profileUrl: string;
+  topValuedNFTs: ValuedNFT[];
+  marketStats: MarketStats;
+  portfolioSummary: {
+    totalValue: number;
+    currency: string;
+    // Null when the ETH/USD rate could not be loaded.
+    totalValueUsd: number | null;
+    ethUsdPrice: number | null;
+    lastUpdated: string;
+  };
+  source: string;
+  error?: string;
+  // False when the wallet holds more NFTs than were paged through; values cover the NFTs read.
+  complete?: boolean;
+  // True when some collections' stats or the ETH/USD rate could not be loaded (or the wallet
+  // holds more collections than are priced per run), so the values are understated. Such results are cached for the error TTL only.
+  partial?: boolean;
+}
+
+export type OpenSeaDependencies = {
+  ens: Pick<EnsResolver, 'resolveName'>;
+  fetchFn: typeof fetch;
+  prices: OpenSeaPriceStore;
+};
+
+export const defaultOpenSeaDependencies: OpenSeaDependencies = {
+  ens: ensResolver,
+  fetchFn: withCircuitBreaker('opensea'),
+  prices: openSeaPrices,
+};
+
+function roundEth(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function toUsd(valueEth: number, ethUsdPrice: number | null): number | null {
+  return ethUsdPrice === null ? null : Math.round(valueEth * ethUsdPrice * 100) / 100;
+}
+
+export function createOpenSeaCollector(
+  dependencies: OpenSeaDependencies = defaultOpenSeaDependencies,
+): Collector<OpenSeaResult> {
+  const { ens, fetchFn, prices } = dependencies;
+
+  // Stats come from the shared per-collection cache; a collection whose stats can't be
+  // loaded is valued at zero rather than failing the whole card.
+  async function loadCollectionStats(slugs: string[]): Promise<Map<string, OpenSeaCollectionStats>> {
+    const statsBySlug = new Map<string, OpenSeaCollectionStats>();
+    let nextIndex = 0;
+    const runner = async () => {
+      while (nextIndex < slugs.length) {
+        const slug = slugs[nextIndex++];
+        try {
+          statsBySlug.set(slug, (await prices.getCollectionStats(slug)).data);
+        } catch (error) {
+          console.warn(`[opensea] Collection stats unavailable for ${slug}:`, error);
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(STATS_CONCURRENCY, slugs.length) }, runner));
+    return statsBySlug;
+  }
+
+  async function loadEthUsdPrice(): Promise<number | null> {
+    try {
+      return (await prices.getEthUsdPrice()).data;
+    } catch (error) {
+      console.warn('[opensea] ETH/USD price unavailable:', error);
+      return null;
+    }
+  }
+
+  async function fetchMarketDataFromOpenSea(address: string): Promise<OpenSeaResult> {
+    try {
+      const openSeaApiKey = process.env.OPENSEA_API_KEY;
+      // const openSeaApiKey = ''; // Force missing key for UI testing
+
+
+      if (!openSeaApiKey) {
+        // Return empty data when no API key instead of demo data
+        return {
+          profileUrl: `https://opensea.io/${address}`,
+          topValuedNFTs: [],
+          marketStats: {
+            totalEstimatedValue: 0,
+            totalFloorValue: 0,
+            uniqueCollections: 0,
+            totalNFTs: 0,
+            topCollectionsByValue: []
+          },
+          portfolioSummary: {
+            totalValue: 0,
+            currency: 'ETH',
+            totalValueUsd: null,
+            ethUsdPrice: null,
+            lastUpdated: new Date().toISOString()
+          },
+          source: 'none',
+          error: 'OPENSEA_API_KEY_REQUIRED'
+        };
+      }
+
+      const nfts: unknown[] = [];
+      let next: string | null = null;
+      let pages = 0;
+      let pageFailed = false;
+      do {
+        const query = new URLSearchParams({ limit: String(PAGE_SIZE) });
+        if (next) query.set('next', next);
+        const response = await fetchFn(`https://api.opensea.io/api/v2/chain/ethereum/account/${address}/nfts?${query}`, {
+          headers: {
+            'x-api-key': openSeaApiKey,
+            'accept': 'application/json'
+          }
+        });
+
+        if (!response.ok) {
+          console.error(`OpenSea API error: ${response.status} ${response.statusText}`);
+          // Value what was read so far; a later refresh retries the rest.
+          pageFailed = true;
+          break;
+        }
+
+        const data: unknown = await response.json();
+        nfts.push(...(isRecord(data) && Array.isArray(data.nfts) ? data.nfts : []));
+        next = isRecord(data) && typeof data.next === 'string' && data.next ? data.next : null;
+        pages++;
+      } while (next && pages < MAX_PAGES);
+
+      if (pageFailed && pages === 0) {
+        return {
+          profileUrl: `https://opensea.io/${address}`,
+          topValuedNFTs: [],
+          marketStats: {
+            totalEstimatedValue: 0,
+            totalFloorValue: 0,
+            uniqueCollections: 0,
+            totalNFTs: 0,
+            topCollectionsByValue: []
+          },
+          portfolioSummary: {
+            totalValue: 0,
+            currency: 'ETH',
+            totalValueUsd: null,
+            ethUsdPrice: null,
+            lastUpdated: new Date().toISOString()
+          },
+          source: 'none',
+          error: 'SERVICE_ERROR'
+        };
+      }
+
+      // OpenSea's `collection` field is the collection slug, which keys the stats cache.
+      const heldBySlug = new Map<string, number>();
+      for (const nft of nfts) {
+        if (isRecord(nft) && typeof nft.collection === 'string') {
+          heldBySlug.set(nft.collection, (heldBySlug.get(nft.collection) ?? 0) + 1);
+        }
+      }
+      const slugs = [...heldBySlug.keys()];
+      const pricedSlugs = [...slugs]
+        .sort((a, b) => (heldBySlug.get(b) ?? 0) - (heldBySlug.get(a) ?? 0))
+        .slice(0, MAX_PRICED_COLLECTIONS);
+      const [statsBySlug, ethUsdPrice] = await Promise.all([loadCollectionStats(pricedSlugs), loadEthUsdPrice()]);
+
+      const collectionStats: Record<string, { count: number; name: string; floorPrice: number; totalValue: number; sevenDayVolume: number | null }> = {};
+
+      const valuedNFTs: ValuedNFT[] = nfts.flatMap((nftUnknown) => {
+        if (!isRecord(nftUnknown)) return [];
+
+        const collectionName = typeof nftUnknown.collection === 'string' ? nftUnknown.collection : 'Unknown Collection';
+        const stats = statsBySlug.get(collectionName);
+        const floorPrice = stats?.floorPrice ?? 0;
+
+        if (!collectionStats[collectionName]) {
+          collectionStats[collectionName] = {
+            count: 0,
+            name: collectionName,
+            floorPrice,
+            totalValue: 0,
+            sevenDayVolume: stats?.sevenDayVolume ?? null
+          };
+        }
+        collectionStats[collectionName].count++;
+        collectionStats[collectionName].totalValue += floorPrice;
+
+        // Attempt to find image
+        const imageUrl = typeof nftUnknown.image_url === 'string' ? nftUnknown.image_url : undefined;
+        const displayImageUrl = typeof nftUnknown.display_image_url === 'string' ? nftUnknown.display_image_url : undefined;
+        const metadataImage = (() => {
+          const metadata = nftUnknown.metadata;
+          if (!isRecord(metadata)) return undefined;
+          return typeof metadata.image === 'string' ? metadata.image : undefined;
+        })();
+        const image = imageUrl ?? displayImageUrl ?? metadataImage ?? '';
+
+        const nftName = typeof nftUnknown.name === 'string' ? nftUnknown.name : undefined;
+        const identifier = typeof nftUnknown.identifier === 'string' ? nftUnknown.identifier : undefined;
+        const openseaUrl = typeof nftUnknown.opensea_url === 'string' ? nftUnknown.opensea_url : `https://opensea.io/${address}`;
+
+        return [{
+          name: nftName ?? (identifier ? `#${identifier}` : 'NFT'),
+          collection: collectionName,
+          image,
+          floorPrice,
+          currency: 'ETH',
+          permalink: openseaUrl,
+          rarity: undefined,
+          estimatedValue: floorPrice,
+          estimatedValueUsd: toUsd(floorPrice, ethUsdPrice)
+        }];
+      });
+
+      // Unique collections
+      const uniqueCollections = Object.keys(collectionStats).length;
+      const totalNFTs = nfts.length;
+      const partial = pageFailed || slugs.some((slug) => !statsBySlug.has(slug)) || ethUsdPrice === null;
+      const totalFloorValue = roundEth(valuedNFTs.reduce((sum, nft) => sum + nft.estimatedValue, 0));
+
+      const topCollectionsByValue = Object.values(collectionStats)
+        .sort((a, b) => b.totalValue - a.totalValue || b.count - a.count)
+        .slice(0, 3)
+        .map(c => ({
+          name: c.name,
+          count: c.count,
+          floorPrice: c.floorPrice,
+          totalValue: roundEth(c.totalValue),
+          sevenDayVolume: c.sevenDayVolume
+        }));
+
+      return {
+        profileUrl: `https://opensea.io/${address}`,
+        // Array.prototype.sort is stable, so equally valued NFTs keep OpenSea's order.
+        topValuedNFTs: [...valuedNFTs].sort((a, b) => b.estimatedValue - a.estimatedValue).slice(0, 5),
+        marketStats: {
+          totalEstimatedValue: totalFloorValue,
+          totalFloorValue,
+          uniqueCollections,
+          totalNFTs,
+          topCollectionsByValue
+        },
+        portfolioSummary: {
+          totalValue: totalFloorValue,
+          currency: 'ETH',
+          totalValueUsd: toUsd(totalFloorValue, ethUsdPrice),
+          ethUsdPrice,
+          lastUpdated: new Date().toISOString()
+        },
+        source: 'opensea',
+        complete: next === null && !pageFailed,
+        partial
+      };
+
+    } catch (error) {
+      console.error('OpenSea market data error:', error);
+      return {
+        profileUrl: `https://opensea.io/${address}`,
+        topValuedNFTs: [],
+        marketStats: {
+          totalEstimatedValue: 0,
+          totalFloorValue: 0,
+          uniqueCollections: 0,
+          totalNFTs: 0,
+          topCollectionsByValue: []
+        },
+        portfolioSummary: {
+          totalValue: 0,
+          currency: 'ETH',
+          totalValueUsd: null,
+          ethUsdPrice: null,
+          lastUpdated: new Date().toISOString()
+        },
+        source: 'none',
+        error: 'SERVICE_ERROR'
+      };
+    }
+  }
+
+  return async function collectOpenSea(address: string): Promise<OpenSeaResult> {
+    const resolvedAddress = await resolveCollectorAddress(address, ens);
+
+    console.log(`Fetching OpenSea market data for: ${resolvedAddress}`);
+
+    try {
+      return await fetchMarketDataFromOpenSea(resolvedAddress);
+    } catch (error) {
+      console.error('OpenSea service error:', error);
+
+      return {
+        profileUrl: `https://opensea.io/${resolvedAddress}`,
+        topValuedNFTs: [],
+        marketStats: {
+          totalEstimatedValue: 0,
+          totalFloorValue: 0,
+          uniqueCollections: 0,
+          totalNFTs: 0,
+          topCollectionsByValue: []
+        },
+        portfolioSummary: {
+          totalValue: 0,
+          currency: 'ETH',
+          totalValueUsd: null,
+          ethUsdPrice: null,
+          lastUpdated: new Date().toISOString()
+        },
+        source: 'none',
+        error: 'SERVICE_ERROR'
+      };
+    }
+  };
+}
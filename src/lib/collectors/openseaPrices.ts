@@ -0,0 +1,112 @@
+import { withCircuitBreaker } from '../circuitBreaker';
+import { SubresourceCache, subresourceCache, SubresourceResult } from '../subresourceCache';
+
+// Collection floor prices and the ETH/USD rate from OpenSea, cached as sub-resources keyed by
+// collection slug rather than by wallet, so every profile holding a collection shares one row.
+
+const MINUTE = 60 * 1000;
+
+export const OPENSEA_COLLECTION_STATS_TTL_MS = 60 * MINUTE;
+export const OPENSEA_ETH_PRICE_TTL_MS = 15 * MINUTE;
+
+// OpenSea's payment token address for native ETH.
+const ETH_PAYMENT_TOKEN = '0x0000000000000000000000000000000000000000';
+
+// Floors quoted in anything else (e.g. a sidechain token) are not added to ETH totals.
+const ETH_SYMBOLS = new Set(['ETH', 'WETH']);
+
+export interface OpenSeaCollectionStats {
+  slug: string;
+  // Floor in ETH, or null when the collection has no ETH-denominated listing.
+  floorPrice: number | null;
+  sevenDayVolume: number | null;
+  sevenDaySales: number | null;
+}
+
+export class OpenSeaPriceError extends Error {
+  constructor(public readonly code: 'NO_API_KEY' | 'API_ERROR', message: string) {
+    super(message);
+    this.name = 'OpenSeaPriceError';
+  }
+}
+
+export type OpenSeaPriceDependencies = {
+  fetchFn: typeof fetch;
+  cache: SubresourceCache;
+};
+
+export const defaultOpenSeaPriceDependencies: OpenSeaPriceDependencies = {
+  fetchFn: withCircuitBreaker('opensea'),
+  cache: subresourceCache,
+};
+
+export interface OpenSeaPriceStore {
+  getCollectionStats: (slug: string) => Promise<SubresourceResult<OpenSeaCollectionStats>>;
+  getEthUsdPrice: () => Promise<SubresourceResult<number>>;
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null;
+}
+
+function toNumber(value: unknown): number | null {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+}
+
+export function toCollectionStats(slug: string, payload: unknown): OpenSeaCollectionStats {
+  const total = isRecord(payload) && isRecord(payload.total) ? payload.total : {};
+  const intervals = isRecord(payload) && Array.isArray(payload.intervals) ? payload.intervals : [];
+  const sevenDay = intervals.find((interval): interval is UnknownRecord =>
+    isRecord(interval) && interval.interval === 'seven_day') ?? {};
+  const symbol = typeof total.floor_price_symbol === 'string' && total.floor_price_symbol
+    ? total.floor_price_symbol.toUpperCase()
+    : 'ETH';
+
+  return {
+    slug,
+    floorPrice: ETH_SYMBOLS.has(symbol) ? toNumber(total.floor_price) : null,
+    sevenDayVolume: toNumber(sevenDay.volume),
+    sevenDaySales: toNumber(sevenDay.sales),
+  };
+}
+
+export function createOpenSeaPrices(
+  dependencies: OpenSeaPriceDependencies = defaultOpenSeaPriceDependencies,
+): OpenSeaPriceStore {
+  const { fetchFn, cache } = dependencies;
+
+  async function fetchOpenSea(path: string): Promise<unknown> {
+    const apiKey = process.env.OPENSEA_API_KEY;
+    if (!apiKey) {
+      throw new OpenSeaPriceError('NO_API_KEY', 'OpenSea API key not configured. Please set OPENSEA_API_KEY environment variable.');
+    }
+
+    const response = await fetchFn(`https://api.opensea.io/api/v2${path}`, {
+      headers: { 'x-api-key': apiKey, accept: 'application/json' },
+    });
+    if (!response.ok) {
+      throw new OpenSeaPriceError('API_ERROR', `OpenSea ${path} returned ${response.status}: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  return {
+    getCollectionStats: (slug) =>
+      cache.get('opensea', 'collection-stats', slug, OPENSEA_COLLECTION_STATS_TTL_MS, async () =>
+        toCollectionStats(slug, await fetchOpenSea(`/collections/${encodeURIComponent(slug)}/stats`))),
+    getEthUsdPrice: () =>
+      cache.get('opensea', 'eth-usd', 'ethereum', OPENSEA_ETH_PRICE_TTL_MS, async () => {
+        const token = await fetchOpenSea(`/chain/ethereum/payment_token/${ETH_PAYMENT_TOKEN}`);
+        const price = isRecord(token) ? toNumber(token.usd_price) : null;
+        if (price === null) {
+          throw new OpenSeaPriceError('API_ERROR', 'OpenSea payment token response has no usd_price');
+        }
+        return price;
+      }),
+  };
+}
+
+export const openSeaPrices = createOpenSeaPrices();
@@ -0,0 +1,112 @@
+import { ens_normalize } from '@adraffy/ens-normalize';
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { withUpstreamAddress } from '../circuitBreaker';
+import type { EnsResolver } from '../ensResolver';
+
+/**
+ * Thrown by a collector when the request can't produce a result. `status` is what the
+ * HTTP wrapper responds with; `body` overrides the default `{ error: message }` payload.
+ */
+export class CollectorError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly body?: object,
+  ) {
+    super(message);
+    this.name = 'CollectorError';
+  }
+}
+
+// A collector takes the address (or ENS name) the route was called with and returns the
+// JSON-serializable result that ends up in `service_cache.data`.
+export type Collector<TResult> = (address: string) => Promise<TResult>;
+
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number, timeoutMessage: string): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timeoutId = setTimeout(() => {
+      const error = new Error(timeoutMessage);
+      error.name = 'TimeoutError';
+      reject(error);
+    }, timeoutMs);
+    promise
+      .then((value) => resolve(value))
+      .catch((error) => reject(error))
+      .finally(() => clearTimeout(timeoutId));
+  });
+}
+
+/**
+ * Turns a collector's input into an ETH address, resolving ENS names through the shared
+ * resolver. Throws 404 for names without an address and 400 for anything unparseable.
+ */
+export async function resolveCollectorAddress(input: string, ens: Pick<EnsResolver, 'resolveName'>): Promise<string> {
+  if (/^0x[a-fA-F0-9]{40}$/.test(input)) return input;
+  if (!input.includes('.') || input.startsWith('0x')) {
+    throw new CollectorError(400, 'Invalid Ethereum address or ENS name format');
+  }
+
+  let resolved: string | null;
+  try {
+    resolved = await ens.resolveName(ens_normalize(input));
+  } catch (error) {
+    console.error(`Error resolving ENS name ${input}:`, error);
+    throw new CollectorError(400, 'Invalid ENS name or resolution failed');
+  }
+  if (!resolved) {
+    throw new CollectorError(404, 'ENS name not found or not resolved to a valid address');
+  }
+  return resolved;
+}
+
+/**
+ * Reads the primary name of `address` and checks that it resolves back to the address,
+ * so a reverse record set by someone else's wallet is never shown as theirs.
+ */
+export async function checkReverseRecord(
+  ens: Pick<EnsResolver, 'lookupAddress' | 'resolveName'>,
+  address: string,
+): Promise<{ reverseName: string | null; verified: boolean }> {
+  const reverseName = await ens.lookupAddress(address);
+  if (!reverseName) return { reverseName: null, verified: false };
+
+  const forwardAddress = await ens.resolveName(reverseName);
+  const verified = forwardAddress !== null && forwardAddress.toLowerCase() === address.toLowerCase();
+  if (!verified) {
+    console.warn(`Primary name ${reverseName} of ${address} resolves to ${forwardAddress ?? 'nothing'}; ignoring it`);
+  }
+  return { reverseName: verified ? reverseName : null, verified };
+}
+
+/**
+ * Exposes a collector as a `GET /api/services/*?address=` route.
+ */
+export function createCollectorHandler<TResult>(
+  collect: Collector<TResult>,
+  missingAddressMessage = 'Address is required',
+) {
+  return async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', ['GET']);
+      return res.status(405).end(`Method ${req.method} Not Allowed`);
+    }
+
+    const { address } = req.query;
+
+    if (!address || typeof address !== 'string') {
+      return res.status(400).json({ error: missingAddressMessage });
+    }
+
+    try {
+      const result = await withUpstreamAddress(address, () => collect(address));
+      return res.status(200).json(result);
+    } catch (error) {
+      if (error instanceof CollectorError) {
+        return res.status(error.status).json(error.body ?? { error: error.message });
+      }
+      console.error('Unhandled collector error:', error);
+      return res.status(500).json({ error: 'Failed to fetch service data' });
+    }
+  };
+}
@@ -0,0 +1,188 @@
+import { Client, getInboxIdForIdentifier } from '@xmtp/node-sdk';
+import { getAddress } from 'viem';
+import { EnsResolver, ensResolver } from '../ensResolver';
+import { checkReverseRecord, Collector, CollectorError, resolveCollectorAddress, withTimeout } from './shared';
+
+type XmtpEnv = 'local' | 'dev' | 'production';
+
+function getXmtpEnv(): XmtpEnv {
+  const env = process.env.XMTP_ENV;
+  if (env === 'local' || env === 'dev' || env === 'production') return env;
+  return 'production';
+}
+
+const DEFAULT_DM_URL = 'https://xmtp.chat/dm/';
+
+function getMessageUrl(inboxId: string): string {
+  return `${process.env.XMTP_DM_URL || DEFAULT_DM_URL}${encodeURIComponent(inboxId)}`;
+}
+
+function identifierKindToString(identifierKind: number): 'ethereum' | 'passkey' | 'unknown' {
+  if (identifierKind === 0) return 'ethereum';
+  if (identifierKind === 1) return 'passkey';
+  return 'unknown';
+}
+
+export interface XmtpIdentity {
+  identifier: string;
+  kind: 'ethereum' | 'passkey' | 'unknown';
+  // Verified ENS primary name of an Ethereum identity; null when it has none.
+  ensName: string | null;
+}
+
+// Inboxes rarely link more than a handful of wallets; beyond this they are listed unnamed.
+const MAX_NAMED_IDENTITIES = 10;
+
+export interface XmtpResult {
+  inboxId: string | null;
+  identities: XmtpIdentity[];
+  connectedIdentities: XmtpIdentity[];
+  // Whether the network reports the address as reachable right now.
+  canMessage: boolean;
+  installationCount: number;
+  // Client timestamp of the most recently added installation, i.e. the last time a device
+  // registered keys for the inbox. Key package lifetimes themselves need an authenticated client.
+  lastInstallationAt: string | null;
+  // Compose link for the inbox; null when the address can't be messaged.
+  messageUrl: string | null;
+  source: string;
+  env: XmtpEnv;
+  error?: string;
+}
+
+export type XmtpDependencies = {
+  ens: Pick<EnsResolver, 'resolveName' | 'lookupAddress'>;
+  xmtp: {
+    getInboxIdForIdentifier: typeof getInboxIdForIdentifier;
+    Client: Pick<typeof Client, 'inboxStateFromInboxIds' | 'canMessage'>;
+  };
+};
+
+export const defaultXmtpDependencies: XmtpDependencies = {
+  ens: ensResolver,
+  xmtp: {
+    getInboxIdForIdentifier,
+    Client,
+  }
+};
+
+export function createXmtpCollector(dependencies: XmtpDependencies = defaultXmtpDependencies): Collector<XmtpResult> {
+  const { ens, xmtp } = dependencies;
+  const { getInboxIdForIdentifier, Client } = xmtp;
+
+  return async function collectXmtp(address: string): Promise<XmtpResult> {
+    const env = getXmtpEnv();
+    const gatewayHost = process.env.XMTP_GATEWAY_HOST || undefined;
+
+    const resolvedAddress = await resolveCollectorAddress(address, ens);
+
+    try {
+      const identifier = {
+        identifier: resolvedAddress,
+        identifierKind: 0, // IdentifierKind.Ethereum
+      };
+
+      const inboxId = await withTimeout(
+        getInboxIdForIdentifier(identifier, env, gatewayHost),
+        8000,
+        'XMTP inbox ID lookup timed out',
+      );
+
+      if (!inboxId) {
+        return {
+          inboxId: null,
+          identities: [],
+          connectedIdentities: [],
+          canMessage: false,
+          installationCount: 0,
+          lastInstallationAt: null,
+          messageUrl: null,
+          source: 'xmtp',
+          env,
+        };
+      }
+
+      const [inboxStates, reachability] = await Promise.all([
+        withTimeout(
+          Client.inboxStateFromInboxIds([inboxId], env, gatewayHost),
+          8000,
+          'XMTP inbox state lookup timed out',
+        ),
+        withTimeout(
+          Client.canMessage([identifier], env),
+          8000,
+          'XMTP reachability check timed out',
+        ),
+      ]);
+      // Keyed by identifier; normalize in case the SDK changes the casing.
+      const canMessage = [...reachability.entries()]
+        .some(([key, reachable]) => key.toLowerCase() === resolvedAddress.toLowerCase() && reachable);
+
+      const inboxState = inboxStates?.[0];
+      const identifiers = inboxState?.identifiers || [];
+      const normalizedInput = resolvedAddress.toLowerCase();
+
+      const installations = inboxState?.installations || [];
+      const lastInstallationNs = installations.reduce<bigint | null>((latest, installation) => {
+        const timestamp = installation.clientTimestampNs;
+        return timestamp !== undefined && (latest === null || timestamp > latest) ? timestamp : latest;
+      }, null);
+
+      const ethereumAddresses = [...new Set(identifiers
+        .filter((id) => id.identifierKind === 0 && /^0x[a-fA-F0-9]{40}$/.test(id.identifier))
+        .map((id) => getAddress(id.identifier)))]
+        .slice(0, MAX_NAMED_IDENTITIES);
+      const ensNames = new Map(await Promise.all(ethereumAddresses.map(async (identityAddress) => {
+        const { reverseName } = await checkReverseRecord(ens, identityAddress).catch((error) => {
+          const message = error instanceof Error ? error.message : String(error);
+          console.warn(`[xmtp] Reverse lookup for ${identityAddress} failed: ${message}`);
+          return { reverseName: null };
+        });
+        return [identityAddress.toLowerCase(), reverseName] as const;
+      })));
+
+      const toIdentity = (id: (typeof identifiers)[number]): XmtpIdentity => ({
+        identifier: id.identifier,
+        kind: identifierKindToString(id.identifierKind),
+        ensName: id.identifierKind === 0 ? ensNames.get(id.identifier.toLowerCase()) ?? null : null,
+      });
+
+      const identities = identifiers.map(toIdentity);
+
+      const connectedIdentities = identifiers
+        .filter((id) => !(id.identifierKind === 0 && id.identifier.toLowerCase() === normalizedInput))
+        .map(toIdentity);
+
+      const resolvedInboxId = inboxState?.inboxId || inboxId;
+      return {
+        inboxId: resolvedInboxId,
+        identities,
+        connectedIdentities,
+        canMessage,
+        installationCount: installations.length,
+        lastInstallationAt: lastInstallationNs === null
+          ? null
+          : new Date(Number(lastInstallationNs / BigInt(1_000_000))).toISOString(),
+        messageUrl: canMessage ? getMessageUrl(resolvedInboxId) : null,
+        source: 'xmtp',
+        env,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('[xmtp] Failed to fetch XMTP data:', message, error);
+      const body: XmtpResult = {
+        inboxId: null,
+        identities: [],
+        connectedIdentities: [],
+        canMessage: false,
+        installationCount: 0,
+        lastInstallationAt: null,
+        messageUrl: null,
+        source: 'xmtp',
+        env,
+        error: message,
+      };
+      throw new CollectorError(500, message, body);
+    }
+  };
+}
@@ -0,0 +1,182 @@
+import { createEnsPublicClient } from '@ensdomains/ensjs';
+import { getAddress } from 'viem';
+import { mainnet } from 'viem/chains';
+
+import { mainnetTransport } from './rpc';
+
+// The one place ENS is resolved. Collectors and profile endpoints get an `EnsResolver`
+// injected instead of building their own client, so a profile load resolves each name
+// once and every card sees the same answer. Results are cached in `ens_records`:
+// - `address`: normalized name -> checksummed ETH address
+// - `name`: checksummed address -> primary (reverse) name
+// - `text`: `${name}|${key}` -> text record value
+// Negative results are cached too, for a shorter time.
+export type EnsRecordKind = 'address' | 'name' | 'text';
+
+export interface CachedEnsRecord {
+  value: string | null;
+  expiresAt: Date;
+}
+
+export interface EnsRecordStore {
+  get: (kind: EnsRecordKind, key: string) => Promise<CachedEnsRecord | null>;
+  set: (kind: EnsRecordKind, key: string, record: CachedEnsRecord) => Promise<void>;
+}
+
+export interface EnsResolver {
+  // Checksummed ETH address of `name`, or null when it has none.
+  resolveName: (name: string) => Promise<string | null>;
+  // Primary name of `address`, or null when none is set.
+  lookupAddress: (address: string) => Promise<string | null>;
+  getText: (name: string, key: string) => Promise<string | null>;
+  // Several records of `name` in one resolver multicall. Not cached here: callers store
+  // the whole set (the ENS collector's `service_cache` row).
+  getRecords: (name: string, query: EnsRecordsQuery) => Promise<EnsRecords>;
+}
+
+export interface EnsRecordsQuery {
+  texts: readonly string[];
+  // Coin names (`btc`, `op`, ...) or ENSIP-9/11 coin types.
+  coins: readonly (string | number)[];
+  contentHash?: boolean;
+}
+
+export interface EnsCoinRecord {
+  coinType: number;
+  coin: string;
+  address: string;
+}
+
+export interface EnsRecords {
+  // Only keys with a non-empty value.
+  texts: Record<string, string>;
+  coins: EnsCoinRecord[];
+  contentHash: { protocolType: string | null; decoded: string } | null;
+}
+
+export type EnsClient = Pick<
+  ReturnType<typeof createEnsPublicClient>,
+  'getAddressRecord' | 'getName' | 'getTextRecord' | 'getRecords'
+>;
+
+export interface EnsResolverDependencies {
+  client: EnsClient;
+  store: EnsRecordStore;
+  now?: () => Date;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export const ENS_RECORD_TTL_MS: Record<EnsRecordKind, number> = {
+  address: HOUR,
+  name: HOUR,
+  // Avatars and other profile text change less often than they are read.
+  text: 6 * HOUR,
+};
+export const ENS_NEGATIVE_TTL_MS = 10 * MINUTE;
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/**
+ * Wraps an ENS client with the shared record cache. Fresh cache entries are served
+ * without an RPC call; concurrent lookups of the same record share one call; when the
+ * RPC fails, an expired entry is served instead of the error.
+ */
+export function createEnsResolver(dependencies: EnsResolverDependencies): EnsResolver {
+  const { client, store, now = () => new Date() } = dependencies;
+  const inFlight = new Map<string, Promise<string | null>>();
+
+  async function lookup(kind: EnsRecordKind, key: string, fetchValue: () => Promise<string | null>): Promise<string | null> {
+    const cached = await store.get(kind, key).catch((error) => {
+      console.error(`[ens-resolver] Failed to read ${kind} record for ${key}:`, error);
+      return null;
+    });
+    if (cached && cached.expiresAt > now()) return cached.value;
+
+    let value: string | null;
+    try {
+      value = await fetchValue();
+    } catch (error) {
+      if (cached) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`[ens-resolver] Refreshing ${kind} record for ${key} failed (${message}); serving expired entry`);
+        return cached.value;
+      }
+      throw error;
+    }
+
+    const ttlMs = value === null ? ENS_NEGATIVE_TTL_MS : ENS_RECORD_TTL_MS[kind];
+    await store.set(kind, key, { value, expiresAt: new Date(now().getTime() + ttlMs) }).catch((error) => {
+      console.error(`[ens-resolver] Failed to save ${kind} record for ${key}:`, error);
+    });
+    return value;
+  }
+
+  function shared(kind: EnsRecordKind, key: string, fetchValue: () => Promise<string | null>): Promise<string | null> {
+    const id = `${kind}:${key}`;
+    let pending = inFlight.get(id);
+    if (!pending) {
+      pending = lookup(kind, key, fetchValue).finally(() => inFlight.delete(id));
+      inFlight.set(id, pending);
+    }
+    return pending;
+  }
+
+  return {
+    resolveName: (name) =>
+      shared('address', name, async () => {
+        const record = await client.getAddressRecord({ name });
+        if (!record?.value || record.value.toLowerCase() === ZERO_ADDRESS) return null;
+        return getAddress(record.value);
+      }),
+    lookupAddress: (address) => {
+      const checksummed = getAddress(address);
+      return shared('name', checksummed, async () => {
+        const result = await client.getName({ address: checksummed });
+        return result?.name ?? null;
+      });
+    },
+    getText: (name, key) =>
+      shared('text', `${name}|${key}`, async () => {
+        const value = await client.getTextRecord({ name, key });
+        return typeof value === 'string' && value !== '' ? value : null;
+      }),
+    getRecords: async (name, { texts, coins, contentHash = false }) => {
+      const result = await client.getRecords({ name, texts: [...texts], coins: [...coins], contentHash });
+      // `getRecords` returns null when the name has no resolver.
+      if (!result) return { texts: {}, coins: [], contentHash: null };
+      return {
+        texts: Object.fromEntries(result.texts.filter(({ value }) => value !== '').map(({ key, value }) => [key, value])),
+        coins: result.coins
+          .filter(({ value }) => value && value.toLowerCase() !== ZERO_ADDRESS)
+          .map(({ id, name: coin, value }) => ({ coinType: id, coin, address: value })),
+        contentHash: (result as { contentHash?: EnsRecords['contentHash'] }).contentHash ?? null,
+      };
+    },
+  };
+}
+
+// Loaded lazily so collectors (and their tests) can be imported without a database client.
+export const prismaEnsRecordStore: EnsRecordStore = {
+  get: async (kind, key) => {
+    const { prisma } = await import('../../lib/prisma');
+    const row = await prisma.ens_records.findUnique({ where: { kind_key: { kind, key } } });
+    return row ? { value: row.value, expiresAt: row.expires_at } : null;
+  },
+  set: async (kind, key, { value, expiresAt }) => {
+    const { prisma } = await import('../../lib/prisma');
+    await prisma.ens_records.upsert({
+      where: { kind_key: { kind, key } },
+      update: { value, resolved_at: new Date(), expires_at: expiresAt },
+      create: { kind, key, value, expires_at: expiresAt },
+    });
+  },
+};
+
+const ensClient = createEnsPublicClient({
+  chain: mainnet,
+  transport: mainnetTransport,
+});
+
+export const ensResolver: EnsResolver = createEnsResolver({ client: ensClient, store: prismaEnsRecordStore });
@@ -0,0 +1,169 @@
+// ENS subgraph access for name enumeration. The hosted `api.thegraph.com` service is gone,
+// so the endpoint comes from env:
+// - ENS_SUBGRAPH_URL: full query URL (self-hosted graph-node, Studio, or another gateway)
+// - THEGRAPH_API_KEY: queries the ENS subgraph on The Graph's decentralized network gateway
+// Without either, enumeration is skipped.
+
+export const ENS_SUBGRAPH_ID = '5XqPmWe6gjyrJtFn9cLy237i4cWw2j9HcUJEXsP5qGtH';
+
+// The subgraph's maximum `first`.
+const PAGE_SIZE = 1000;
+// Per role; 10k names is far beyond any real portfolio and bounds a runaway loop.
+const MAX_PAGES = 10;
+const PAGE_TIMEOUT_MS = 6000;
+// Whole crawl, all roles; well under the ENS collector's 20 s timeout so the names read so far
+// are returned instead of the whole service timing out.
+export const CRAWL_BUDGET_MS = 12000;
+
+type Env = Record<string, string | undefined>;
+
+export function getEnsSubgraphUrl(env: Env = process.env): string | null {
+  if (env.ENS_SUBGRAPH_URL) return env.ENS_SUBGRAPH_URL;
+  if (env.THEGRAPH_API_KEY) {
+    return `https://gateway.thegraph.com/api/${env.THEGRAPH_API_KEY}/subgraphs/id/${ENS_SUBGRAPH_ID}`;
+  }
+  return null;
+}
+
+// How the address holds a name: registry owner, .eth registrant, or NameWrapper token owner.
+export type EnsNameRole = 'owner' | 'registrant' | 'wrappedOwner';
+
+const ENS_NAME_ROLES: EnsNameRole[] = ['owner', 'registrant', 'wrappedOwner'];
+
+export interface SubgraphDomain {
+  id: string;
+  name: string | null;
+  createdAt: string;
+  subdomainCount: number;
+  owner: { id: string } | null;
+  resolver: { address: string } | null;
+  registration: { registrationDate: string; expiryDate: string; registrant: { id: string } | null } | null;
+  wrappedDomain: { expiryDate: string; fuses: number; owner: { id: string } | null } | null;
+}
+
+export interface OwnedSubgraphDomain extends SubgraphDomain {
+  roles: EnsNameRole[];
+}
+
+export interface OwnedDomainsResult {
+  domains: OwnedSubgraphDomain[];
+  // False when the page cap or the crawl deadline stopped the listing early.
+  complete: boolean;
+}
+
+export class EnsSubgraphError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EnsSubgraphError';
+  }
+}
+
+const DOMAIN_FIELDS = `
+  id
+  name
+  createdAt
+  subdomainCount
+  owner { id }
+  resolver { address }
+  registration { registrationDate expiryDate registrant { id } }
+  wrappedDomain { expiryDate fuses owner { id } }
+`;
+
+async function queryPage(
+  url: string,
+  fetchFn: typeof fetch,
+  role: EnsNameRole,
+  address: string,
+  lastId: string,
+  timeoutMs: number,
+): Promise<SubgraphDomain[]> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  // Cursor on `id` instead of `skip`, which the subgraph caps at 5000.
+  const query = `
+    query OwnedDomains($address: String!, $lastId: String!) {
+      domains(where: {${role}: $address, id_gt: $lastId}, first: ${PAGE_SIZE}, orderBy: id, orderDirection: asc) {
+        ${DOMAIN_FIELDS}
+      }
+    }
+  `;
+
+  try {
+    const response = await fetchFn(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query, variables: { address, lastId } }),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new EnsSubgraphError(`ENS subgraph responded ${response.status} ${response.statusText}`);
+    }
+    const data = await response.json();
+    if (data.errors) {
+      throw new EnsSubgraphError(`ENS subgraph query errors: ${JSON.stringify(data.errors)}`);
+    }
+    return data.data?.domains ?? [];
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function fetchDomainsByRole(
+  url: string,
+  fetchFn: typeof fetch,
+  role: EnsNameRole,
+  address: string,
+  deadline: number,
+): Promise<{ domains: SubgraphDomain[]; complete: boolean }> {
+  const domains: SubgraphDomain[] = [];
+  let lastId = '';
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const remainingMs = deadline - Date.now();
+    if (remainingMs <= 0) break;
+
+    let batch: SubgraphDomain[];
+    try {
+      batch = await queryPage(url, fetchFn, role, address, lastId, Math.min(PAGE_TIMEOUT_MS, remainingMs));
+    } catch (error) {
+      // Cut off by the crawl deadline rather than failed: keep the pages already read.
+      if (error instanceof Error && error.name === 'AbortError' && Date.now() >= deadline) break;
+      throw error;
+    }
+    domains.push(...batch);
+    if (batch.length < PAGE_SIZE) return { domains, complete: true };
+    lastId = batch[batch.length - 1].id;
+  }
+  console.warn(`[ens-subgraph] Stopped listing ${role} names of ${address} after ${domains.length} names`);
+  return { domains, complete: false };
+}
+
+/**
+ * Every domain the address owns, is the .eth registrant of, or holds as a wrapped name,
+ * newest first. A domain matching several roles is returned once with all of them.
+ * Pages still unread at `deadline` are skipped and the result is marked incomplete.
+ */
+export async function fetchOwnedDomains(
+  url: string,
+  fetchFn: typeof fetch,
+  address: string,
+  deadline: number = Date.now() + CRAWL_BUDGET_MS,
+): Promise<OwnedDomainsResult> {
+  const account = address.toLowerCase();
+  const results = await Promise.all(
+    ENS_NAME_ROLES.map(async (role) => ({ role, ...(await fetchDomainsByRole(url, fetchFn, role, account, deadline)) })),
+  );
+
+  const byId = new Map<string, OwnedSubgraphDomain>();
+  for (const { role, domains } of results) {
+    for (const domain of domains) {
+      const existing = byId.get(domain.id);
+      if (existing) existing.roles.push(role);
+      else byId.set(domain.id, { ...domain, roles: [role] });
+    }
+  }
+  return {
+    domains: Array.from(byId.values()).sort((a, b) => Number(b.createdAt) - Number(a.createdAt)),
+    complete: results.every(({ complete }) => complete),
+  };
+}
@@ -0,0 +1,56 @@
+import { createHash } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+import { FastProfileData } from './cacheStore';
+
+/**
+ * Strong ETag over the given version parts (timestamps, counters, query variant).
+ * Callers pass what identifies the response content, not the body itself, so fields
+ * that differ on every request (`loadTime`) don't defeat revalidation.
+ */
+export function createEtag(...parts: unknown[]): string {
+  return `"${createHash('sha256').update(JSON.stringify(parts)).digest('base64url').slice(0, 27)}"`;
+}
+
+/**
+ * ETag of a fast-profile response: the per-service `last_updated` timestamps plus the
+ * error and freshness state that is rendered alongside them. `variant` separates
+ * differently shaped responses for the same address (e.g. `services` / `fields`).
+ */
+export function getFastProfileEtag(profile: FastProfileData, variant = ''): string {
+  const errors = Object.entries(profile.serviceErrors ?? {})
+    .map(([service, error]) => [service, error.errorCount, error.lastAttempt]);
+  return createEtag(profile.address, variant, profile.serviceTimestamps ?? {}, errors, profile.serviceFreshness ?? {});
+}
+
+// If-None-Match uses the weak comparison (RFC 9110 13.1.2): `W/` prefixes are ignored.
+export function matchesIfNoneMatch(header: string | string[] | undefined, etag: string): boolean {
+  if (!header) return false;
+  const value = Array.isArray(header) ? header.join(',') : header;
+  if (value.trim() === '*') return true;
+  const stripWeak = (tag: string) => tag.trim().replace(/^W\//, '');
+  return value.split(',').some((tag) => stripWeak(tag) === stripWeak(etag));
+}
+
+/**
+ * Sends `body` as JSON with our ETag, or an empty 304 when the client already has it.
+ * Writes the response directly because Next's `res.json` replaces the ETag with a hash
+ * of the serialized body.
+ */
+export function sendJsonWithEtag(req: IncomingMessage, res: ServerResponse, etag: string, body: unknown): void {
+  res.setHeader('ETag', etag);
+  // Let clients keep the body but always revalidate it.
+  res.setHeader('Cache-Control', 'private, no-cache');
+
+  if (matchesIfNoneMatch(req.headers['if-none-match'], etag)) {
+    res.statusCode = 304;
+    res.end();
+    return;
+  }
+
+  const payload = JSON.stringify(body);
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.setHeader('Content-Length', Buffer.byteLength(payload));
+  res.end(payload);
+}
@@ -0,0 +1,134 @@
+// Farcaster Hub HTTP API access (a self-hosted Hubble or Snapchain node, usually on port 2281),
+// used by the Farcaster collector in place of Neynar. Hubs only index verifications by FID,
+// so an address leads to the account it is the custody address of, not to accounts that
+// merely verified it.
+
+// The largest page hubs accept.
+const PAGE_SIZE = 1000;
+// Follower counts stop here; beyond 10k the count is a lower bound.
+const MAX_LINK_PAGES = 10;
+const REQUEST_TIMEOUT_MS = 6000;
+
+export type HubUserDataField = 'pfp' | 'display' | 'bio' | 'url' | 'username';
+
+const USER_DATA_TYPES: Record<string, HubUserDataField> = {
+  USER_DATA_TYPE_PFP: 'pfp',
+  USER_DATA_TYPE_DISPLAY: 'display',
+  USER_DATA_TYPE_BIO: 'bio',
+  USER_DATA_TYPE_URL: 'url',
+  USER_DATA_TYPE_USERNAME: 'username',
+};
+
+export interface HubCustodyRegistration {
+  fid: number;
+  custodyAddress: string;
+  // From the ID registry event's block; null when the hub omits it.
+  registeredAt: string | null;
+}
+
+export interface HubVerifications {
+  ethAddresses: string[];
+  solAddresses: string[];
+}
+
+export interface FarcasterHubClient {
+  getCustodyRegistration: (address: string) => Promise<HubCustodyRegistration | null>;
+  getUserData: (fid: number) => Promise<Partial<Record<HubUserDataField, string>>>;
+  getVerifications: (fid: number) => Promise<HubVerifications>;
+  countFollowers: (fid: number) => Promise<number>;
+  countFollowing: (fid: number) => Promise<number>;
+}
+
+export class FarcasterHubError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FarcasterHubError';
+  }
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null;
+}
+
+function messageBodies(page: UnknownRecord, bodyKey: string): UnknownRecord[] {
+  return (Array.isArray(page.messages) ? page.messages : [])
+    .map((message) => (isRecord(message) && isRecord(message.data) ? message.data[bodyKey] : null))
+    .filter(isRecord);
+}
+
+export function createFarcasterHubClient(hubUrl: string, fetchFn: typeof fetch): FarcasterHubClient {
+  const baseUrl = hubUrl.replace(/\/+$/, '');
+
+  // Resolves to null when the hub reports the entity as not found.
+  async function hubGet(path: string, params: Record<string, string | number>): Promise<UnknownRecord | null> {
+    const query = new URLSearchParams(Object.entries(params).map(([key, value]) => [key, String(value)]));
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+      const response = await fetchFn(`${baseUrl}/v1/${path}?${query}`, {
+        headers: { accept: 'application/json' },
+        signal: controller.signal,
+      });
+      const body = await response.json().catch(() => null);
+      if (response.status === 404 || (isRecord(body) && body.errCode === 'not_found')) return null;
+      if (!response.ok || !isRecord(body)) {
+        const detail = isRecord(body) && typeof body.details === 'string' ? ` - ${body.details}` : '';
+        throw new FarcasterHubError(`Hub ${path} responded ${response.status}${detail}`);
+      }
+      return body;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  async function countLinks(path: string, params: Record<string, string | number>): Promise<number> {
+    let count = 0;
+    let pageToken = '';
+    for (let page = 0; page < MAX_LINK_PAGES; page++) {
+      const body = await hubGet(path, { ...params, link_type: 'follow', pageSize: PAGE_SIZE, ...(pageToken ? { pageToken } : {}) });
+      if (!body) break;
+      count += messageBodies(body, 'linkBody').length;
+      pageToken = typeof body.nextPageToken === 'string' ? body.nextPageToken : '';
+      if (!pageToken) break;
+    }
+    return count;
+  }
+
+  return {
+    getCustodyRegistration: async (address) => {
+      const event = await hubGet('onChainIdRegistryEventByAddress', { address: address.toLowerCase() });
+      const body = event && isRecord(event.idRegisterEventBody) ? event.idRegisterEventBody : null;
+      if (!event || typeof event.fid !== 'number' || !body || typeof body.to !== 'string') return null;
+      // A transfer away leaves an event naming the new custody address.
+      if (body.to.toLowerCase() !== address.toLowerCase()) return null;
+      return {
+        fid: event.fid,
+        custodyAddress: body.to,
+        registeredAt: typeof event.blockTimestamp === 'number' ? new Date(event.blockTimestamp * 1000).toISOString() : null,
+      };
+    },
+    getUserData: async (fid) => {
+      const body = await hubGet('userDataByFid', { fid });
+      const data: Partial<Record<HubUserDataField, string>> = {};
+      for (const entry of body ? messageBodies(body, 'userDataBody') : []) {
+        const field = typeof entry.type === 'string' ? USER_DATA_TYPES[entry.type] : undefined;
+        if (field && typeof entry.value === 'string' && entry.value) data[field] = entry.value;
+      }
+      return data;
+    },
+    getVerifications: async (fid) => {
+      const body = await hubGet('verificationsByFid', { fid });
+      const verifications: HubVerifications = { ethAddresses: [], solAddresses: [] };
+      for (const entry of body ? messageBodies(body, 'verificationAddAddressBody') : []) {
+        if (typeof entry.address !== 'string') continue;
+        if (entry.protocol === 'PROTOCOL_SOLANA') verifications.solAddresses.push(entry.address);
+        else verifications.ethAddresses.push(entry.address);
+      }
+      return verifications;
+    },
+    countFollowers: (fid) => countLinks('linksByTargetFid', { target_fid: fid }),
+    countFollowing: (fid) => countLinks('linksByFid', { fid }),
+  };
+}
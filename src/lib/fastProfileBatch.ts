@@ -0,0 +1,155 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { AddressResolutionError, ResolvedProfileAddress } from './addressResolver';
+import { FastProfileData, ServiceName } from './cacheStore';
+import { buildFastProfileData, CachedServiceRow } from './fastProfileData';
+import { getRefreshBudget } from './refreshBudget';
+
+// Large enough for a DAO member list, small enough for one `IN (...)` query and one response.
+export const MAX_BATCH_SIZE = 300;
+
+export interface BatchProfileResult {
+  input: string;
+  profile: FastProfileData | null;
+  error?: string;
+}
+
+export interface BatchProfileResponse {
+  results: BatchProfileResult[];
+  loadTime: number;
+}
+
+// ENS names without an alias need an RPC call each; don't fire hundreds at once.
+const RESOLVE_CONCURRENCY = 10;
+
+export interface ProfileRefresh {
+  address: string;
+  servicesNeedingRefresh: ServiceName[];
+  expiredServices: ServiceName[];
+}
+
+export interface BatchRouteDependencies {
+  resolveAddress: (input: string) => Promise<ResolvedProfileAddress>;
+  // Every `service_cache` row of the given addresses, in a single query.
+  findServiceRows: (addresses: string[]) => Promise<(CachedServiceRow & { address: string })[]>;
+  // Queues the refreshes and drains what fits before `deadline` (epoch ms), touching only
+  // the jobs of these addresses.
+  scheduleRefresh: (refreshes: ProfileRefresh[], deadline: number) => Promise<unknown>;
+}
+
+interface ResolvedInput {
+  input: string;
+  address: string | null;
+  ensName: string | null;
+  error?: string;
+}
+
+async function resolveInputs(
+  inputs: unknown[],
+  resolveAddress: BatchRouteDependencies['resolveAddress'],
+): Promise<ResolvedInput[]> {
+  const resolved: ResolvedInput[] = new Array(inputs.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < inputs.length) {
+      const index = next++;
+      const input = inputs[index];
+      if (typeof input !== 'string' || !input.trim()) {
+        resolved[index] = { input: String(input), address: null, ensName: null, error: 'Address or ENS name is required' };
+        continue;
+      }
+      const trimmed = input.trim();
+      try {
+        const { address, ensName } = await resolveAddress(trimmed);
+        resolved[index] = { input: trimmed, address, ensName };
+      } catch (error) {
+        // Resolve each input on its own so one typo doesn't fail the whole batch.
+        const message = error instanceof AddressResolutionError ? error.message : 'Failed to resolve address';
+        resolved[index] = { input: trimmed, address: null, ensName: null, error: message };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(RESOLVE_CONCURRENCY, inputs.length) }, worker));
+  return resolved;
+}
+
+/**
+ * Handler for `POST /api/fast-profile/batch`. It lives here rather than in the route so it can
+ * be built without the database and sync modules the route wires in.
+ */
+export function createBatchHandler(dependencies: BatchRouteDependencies) {
+  return async function handler(req: NextApiRequest, res: NextApiResponse<BatchProfileResponse | { error: string }>) {
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', ['POST']);
+      return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+    }
+
+    const startTime = Date.now();
+    const inputs: unknown = req.body?.addresses;
+
+    if (!Array.isArray(inputs) || inputs.length === 0) {
+      return res.status(400).json({ error: 'Body must be { "addresses": [...] } with at least one address or ENS name' });
+    }
+    if (inputs.length > MAX_BATCH_SIZE) {
+      return res.status(400).json({ error: `At most ${MAX_BATCH_SIZE} addresses per request` });
+    }
+
+    const resolvedInputs = await resolveInputs(inputs, dependencies.resolveAddress);
+    const normalizedAddresses = Array.from(
+      new Set(resolvedInputs.flatMap((resolved) => (resolved.address ? [resolved.address] : []))),
+    );
+    console.log(`[fast-profile:batch] Handler invoked for ${inputs.length} inputs (${normalizedAddresses.length} unique).`);
+
+    let cachedServices: (CachedServiceRow & { address: string })[];
+    try {
+      cachedServices = normalizedAddresses.length > 0
+        ? await dependencies.findServiceRows(normalizedAddresses)
+        : [];
+    } catch (error) {
+      const errorInstance = error instanceof Error ? error : new Error(String(error));
+      console.error(`[fast-profile:batch] Failed to read service_cache: ${errorInstance.message}`, errorInstance);
+      return res.status(500).json({ error: `Failed to retrieve profiles: ${errorInstance.message}` });
+    }
+
+    const rowsByAddress = new Map<string, CachedServiceRow[]>();
+    for (const row of cachedServices) {
+      const rows = rowsByAddress.get(row.address) ?? [];
+      rows.push(row);
+      rowsByAddress.set(row.address, rows);
+    }
+
+    const profiles = new Map<string, FastProfileData>();
+    const refreshes: ProfileRefresh[] = [];
+    const now = new Date();
+    for (const normalizedAddress of normalizedAddresses) {
+      const { profile, servicesNeedingRefresh, expiredServices } =
+        buildFastProfileData(normalizedAddress, rowsByAddress.get(normalizedAddress) ?? [], startTime, now);
+      profiles.set(normalizedAddress, profile);
+      if (servicesNeedingRefresh.length > 0) {
+        refreshes.push({ address: normalizedAddress, servicesNeedingRefresh, expiredServices });
+      }
+    }
+
+    const results: BatchProfileResult[] = resolvedInputs.map(({ input, address, ensName, error }) => {
+      const profile = address ? profiles.get(address) : undefined;
+      return profile ? { input, profile: { ...profile, ensName } } : { input, profile: null, error };
+    });
+
+    if (refreshes.length > 0) {
+      // Everything stale is queued; this invocation drains what its time budget allows of
+      // these addresses' jobs and /api/sync-worker picks up the rest.
+      const backgroundPromise = dependencies.scheduleRefresh(refreshes, startTime + getRefreshBudget().budgetMs);
+      const waitUntil = (res as unknown as { waitUntil?: (promise: Promise<unknown>) => void }).waitUntil;
+      if (typeof waitUntil === 'function') {
+        waitUntil(backgroundPromise);
+      }
+      backgroundPromise.catch(err => {
+        const errorInstance = err instanceof Error ? err : new Error(String(err));
+        console.error(`[fast-profile:batch] Background refresh failed: ${errorInstance.message}`, errorInstance);
+      });
+    }
+
+    return res.status(200).json({ results, loadTime: Date.now() - startTime });
+  }
+}
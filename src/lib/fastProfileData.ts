@@ -0,0 +1,244 @@
+import {
+  FastProfileData,
+  getServiceFreshness,
+  ServiceFreshness,
+  SERVICES_CONFIG,
+  ServiceName,
+} from './cacheStore';
+
+// The `service_cache` columns needed to build a profile response.
+export interface CachedServiceRow {
+  service: string;
+  data: string;
+  last_updated: Date | null;
+  expires_at: Date | null;
+  error_count: number | null;
+  last_error: string | null;
+}
+
+export interface BuiltFastProfile {
+  profile: FastProfileData;
+  // Every service that is not fresh, and the subset with nothing servable (missing or past the stale window).
+  servicesNeedingRefresh: ServiceName[];
+  expiredServices: ServiceName[];
+}
+
+type ServiceConfig = (typeof SERVICES_CONFIG)[number];
+
+// A row past its stale-serve window is not served: the service reads as its default data
+// (pending a refresh) until the collector writes a new row.
+function parseServableData(serviceConfig: ServiceConfig, row: CachedServiceRow, freshness: ServiceFreshness): unknown {
+  if (freshness === 'expired') return serviceConfig.defaultData;
+  return JSON.parse(row.data);
+}
+
+/**
+ * Turns the cached rows of one address into the `FastProfileData` response and works out
+ * which services need a background refresh. Shared by the single and batch endpoints so
+ * both apply the same freshness rules. With `selectedServices` only those services are
+ * returned, counted towards the cache status and refreshed.
+ */
+export function buildFastProfileData(
+  normalizedAddress: string,
+  cachedServices: readonly CachedServiceRow[],
+  startTime: number,
+  now: Date = new Date(),
+  selectedServices: readonly ServiceName[] | null = null,
+): BuiltFastProfile {
+  const servicesData: FastProfileData['services'] = {};
+  const serviceErrors: { [serviceName: string]: { lastError: string; errorCount: number; lastAttempt: string } } = {};
+  const serviceTimestamps: { [serviceName: string]: string } = {};
+  const serviceFreshness: { [serviceName: string]: ServiceFreshness } = {};
+  let allServicesFresh = true;
+  const servicesNeedingRefresh: ServiceName[] = [];
+  const expiredServices: ServiceName[] = [];
+  let lastContentUpdate: Date | null = null;
+
+  const serviceConfigs = selectedServices
+    ? SERVICES_CONFIG.filter((serviceConfig) => selectedServices.includes(serviceConfig.name))
+    : SERVICES_CONFIG;
+
+  for (const serviceConfig of serviceConfigs) {
+    const cachedEntry = cachedServices.find(cs => cs.service === serviceConfig.name);
+    if (cachedEntry) {
+      const freshness = getServiceFreshness(serviceConfig, cachedEntry.expires_at, now);
+      try {
+        servicesData[serviceConfig.name as keyof typeof servicesData] =
+          parseServableData(serviceConfig, cachedEntry, freshness) as Record<string, unknown> | null;
+      } catch (e) {
+        console.error(`[fast-profile:error] Failed to parse JSON for ${serviceConfig.name} for address ${normalizedAddress}:`, e);
+        servicesData[serviceConfig.name as keyof typeof servicesData] = serviceConfig.defaultData;
+        // Potentially mark this specific service as stale or log an error to be surfaced
+      }
+
+      // Include service timestamp
+      if (cachedEntry.last_updated) {
+        serviceTimestamps[serviceConfig.name] = cachedEntry.last_updated.toISOString();
+      }
+
+      // Include error information ONLY if there's a current error (error_count > 0)
+      // When a service is successfully updated, error_count is set to 0 and last_error to null
+      if (cachedEntry.error_count && cachedEntry.error_count > 0 && cachedEntry.last_error) {
+        serviceErrors[serviceConfig.name] = {
+          lastError: cachedEntry.last_error,
+          errorCount: cachedEntry.error_count,
+          lastAttempt: cachedEntry.last_updated?.toISOString() || new Date().toISOString()
+        };
+      }
+
+      if (cachedEntry.last_updated && (!lastContentUpdate || cachedEntry.last_updated > lastContentUpdate)) {
+        lastContentUpdate = cachedEntry.last_updated;
+      }
+      serviceFreshness[serviceConfig.name] = freshness;
+      if (freshness !== 'fresh') {
+        allServicesFresh = false;
+        servicesNeedingRefresh.push(serviceConfig.name);
+        if (freshness === 'expired') expiredServices.push(serviceConfig.name);
+      }
+    } else {
+      servicesData[serviceConfig.name as keyof typeof servicesData] = serviceConfig.defaultData;
+      serviceFreshness[serviceConfig.name] = 'expired';
+      allServicesFresh = false;
+      servicesNeedingRefresh.push(serviceConfig.name);
+      expiredServices.push(serviceConfig.name);
+    }
+  }
+
+  const cacheStatus = allServicesFresh ? 'hit' : (cachedServices.length > 0 ? 'partial' : 'miss');
+  const source = allServicesFresh ? 'database-cache' : (cachedServices.length > 0 ? 'database-partial-cache' : 'initial');
+
+  const profile: FastProfileData = {
+    address: normalizedAddress,
+    services: servicesData,
+    serviceErrors: Object.keys(serviceErrors).length > 0 ? serviceErrors : undefined,
+    serviceTimestamps: Object.keys(serviceTimestamps).length > 0 ? serviceTimestamps : undefined,
+    serviceFreshness,
+    lastContentUpdate: lastContentUpdate?.toISOString() || new Date(0).toISOString(), // Use epoch if no updates yet
+    cacheStatus,
+    source,
+    loadTime: Date.now() - startTime,
+  };
+
+  return { profile, servicesNeedingRefresh, expiredServices };
+}
+
+/**
+ * Default data for every (selected) service, used when the cache can't be read at all.
+ */
+export function buildFallbackServicesData(selectedServices: readonly ServiceName[] | null = null): FastProfileData['services'] {
+  const fallbackServicesData: FastProfileData['services'] = {};
+  SERVICES_CONFIG.filter(sc => !selectedServices || selectedServices.includes(sc.name)).forEach(sc => {
+    fallbackServicesData[sc.name as keyof typeof fallbackServicesData] = sc.defaultData;
+  });
+  return fallbackServicesData;
+}
+
+export interface ServiceUpdatedPayload {
+  service: ServiceName;
+  data: unknown;
+  lastUpdated: string | null;
+  freshness: ServiceFreshness;
+}
+
+export interface ServiceFailedPayload {
+  service: ServiceName;
+  error: string;
+  errorCount: number;
+  lastAttempt: string;
+}
+
+// Events sent by `/api/fast-profile/stream` after the initial `snapshot`; the names match
+// the `addRecentUpdateEvent` statuses that announce them.
+export type ProfileStreamEvent =
+  | { type: 'service_updated'; payload: ServiceUpdatedPayload }
+  | { type: 'service_failed'; payload: ServiceFailedPayload };
+
+// Changes whenever the worker writes a new result (or a new failure) for the row.
+function getRowVersion(row: CachedServiceRow): string {
+  return `${row.last_updated?.getTime() ?? 0}:${row.error_count ?? 0}`;
+}
+
+/**
+ * Compares freshly read rows with the versions already sent to a stream client and returns
+ * one event per changed service. `seenVersions` is updated in place.
+ */
+export function diffServiceRows(
+  seenVersions: Map<string, string>,
+  rows: readonly CachedServiceRow[],
+  now: Date = new Date(),
+): ProfileStreamEvent[] {
+  const events: ProfileStreamEvent[] = [];
+
+  for (const serviceConfig of SERVICES_CONFIG) {
+    const row = rows.find((r) => r.service === serviceConfig.name);
+    if (!row) continue;
+
+    const version = getRowVersion(row);
+    if (seenVersions.get(serviceConfig.name) === version) continue;
+    seenVersions.set(serviceConfig.name, version);
+
+    if (row.error_count && row.error_count > 0 && row.last_error) {
+      events.push({
+        type: 'service_failed',
+        payload: {
+          service: serviceConfig.name,
+          error: row.last_error,
+          errorCount: row.error_count,
+          lastAttempt: row.last_updated?.toISOString() || now.toISOString(),
+        },
+      });
+      continue;
+    }
+
+    const freshness = getServiceFreshness(serviceConfig, row.expires_at, now);
+    let data: unknown;
+    try {
+      data = parseServableData(serviceConfig, row, freshness);
+    } catch {
+      data = serviceConfig.defaultData;
+    }
+    events.push({
+      type: 'service_updated',
+      payload: {
+        service: serviceConfig.name,
+        data,
+        lastUpdated: row.last_updated?.toISOString() ?? null,
+        freshness,
+      },
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Folds a stream event into the profile the client already holds.
+ */
+export function applyProfileStreamEvent(profile: FastProfileData, event: ProfileStreamEvent): FastProfileData {
+  const { service } = event.payload;
+  const serviceErrors = { ...(profile.serviceErrors ?? {}) };
+
+  if (event.type === 'service_failed') {
+    serviceErrors[service] = {
+      lastError: event.payload.error,
+      errorCount: event.payload.errorCount,
+      lastAttempt: event.payload.lastAttempt,
+    };
+    return { ...profile, serviceErrors };
+  }
+
+  delete serviceErrors[service];
+  const { data, lastUpdated, freshness } = event.payload;
+  const serviceTimestamps = { ...(profile.serviceTimestamps ?? {}) };
+  if (lastUpdated) serviceTimestamps[service] = lastUpdated;
+  const lastContentUpdate = lastUpdated && lastUpdated > profile.lastContentUpdate ? lastUpdated : profile.lastContentUpdate;
+
+  return {
+    ...profile,
+    services: { ...profile.services, [service]: data as Record<string, unknown> | null },
+    serviceErrors: Object.keys(serviceErrors).length > 0 ? serviceErrors : undefined,
+    serviceTimestamps,
+    serviceFreshness: { ...(profile.serviceFreshness ?? {}), [service]: freshness },
+    lastContentUpdate,
+  };
+}
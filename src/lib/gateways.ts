@@ -0,0 +1,73 @@
+// The one list of decentralized storage gateways, used wherever a stored URI (avatars, NFT
+// metadata, contenthash) is turned into an HTTP URL. Configured from env:
+// - IPFS_GATEWAY_URLS: comma-separated IPFS gateway origins (default: ipfs.io, dweb.link, Pinata)
+// - ARWEAVE_GATEWAY_URLS: comma-separated Arweave gateway origins (default: arweave.net)
+// The first gateway is the canonical one; the avatar proxy falls back to the others.
+
+const DEFAULT_IPFS_GATEWAYS = ['https://ipfs.io', 'https://dweb.link', 'https://gateway.pinata.cloud'];
+const DEFAULT_ARWEAVE_GATEWAYS = ['https://arweave.net'];
+
+// CIDv0 (base58 `Qm…`) or a base32 CIDv1 (`bafy…`, `bafk…`), optionally followed by a path.
+const BARE_CID = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{58,})(\/.*)?$/;
+
+type Env = Record<string, string | undefined>;
+
+export interface GatewayConfig {
+  ipfs: string[];
+  arweave: string[];
+}
+
+function readList(value: string | undefined, fallback: string[]): string[] {
+  const list = value
+    ? value.split(',').map((url) => url.trim().replace(/\/+$/, '')).filter(Boolean)
+    : [];
+  return list.length > 0 ? list : fallback;
+}
+
+export function getGatewayConfig(env: Env = process.env): GatewayConfig {
+  return {
+    ipfs: readList(env.IPFS_GATEWAY_URLS, DEFAULT_IPFS_GATEWAYS),
+    arweave: readList(env.ARWEAVE_GATEWAY_URLS, DEFAULT_ARWEAVE_GATEWAYS),
+  };
+}
+
+/**
+ * Every HTTP URL `uri` can be fetched from, preferred first. Handles `ipfs://`, `ipns://`,
+ * `ar://`, bare CIDs and gateway URLs under `/ipfs/` (which are also offered on our
+ * gateways, since the original one may be down). `data:` and other HTTP(S) URLs are
+ * returned as-is; anything else yields an empty list.
+ */
+export function toGatewayUrls(uri: string, gateways: GatewayConfig = getGatewayConfig()): string[] {
+  const value = uri.trim();
+  const onIpfs = (path: string) => gateways.ipfs.map((gateway) => `${gateway}/${path}`);
+
+  if (value.startsWith('data:')) return [value];
+
+  const scheme = /^([a-z]+):\/\/(.*)$/i.exec(value);
+  if (scheme) {
+    const [, protocol, rest] = scheme;
+    switch (protocol.toLowerCase()) {
+      case 'ipfs':
+        // Some records carry a redundant `ipfs://ipfs/<cid>`.
+        return onIpfs(`ipfs/${rest.replace(/^ipfs\//, '')}`);
+      case 'ipns':
+        return onIpfs(`ipns/${rest}`);
+      case 'ar':
+        return gateways.arweave.map((gateway) => `${gateway}/${rest}`);
+      case 'http':
+      case 'https': {
+        const ipfsPath = /^[^/]+\/(ipfs|ipns)\/(.+)$/.exec(rest);
+        if (!ipfsPath) return [value];
+        return Array.from(new Set([value, ...onIpfs(`${ipfsPath[1]}/${ipfsPath[2]}`)]));
+      }
+      default:
+        return [];
+    }
+  }
+
+  return BARE_CID.test(value) ? onIpfs(`ipfs/${value}`) : [];
+}
+
+export function toGatewayUrl(uri: string, gateways: GatewayConfig = getGatewayConfig()): string | null {
+  return toGatewayUrls(uri, gateways)[0] ?? null;
+}
@@ -0,0 +1,5 @@
+import { createAddressResolver } from './addressResolver';
+import { ensResolver } from './ensResolver';
+
+// The resolver shared by the profile endpoints.
+export const resolveProfileAddress = createAddressResolver({ ens: ensResolver });
@@ -0,0 +1,109 @@
+import { FastProfileData, getServiceConfig, SERVICES_CONFIG, ServiceName } from './cacheStore';
+
+// Query parameters that narrow a profile response:
+// - `services=ens,farcaster`: only read, return and refresh these services
+// - `fields=farcaster.username,debank.totalUSD`: return only these paths of the service data
+//   (a bare service name keeps its whole blob; paths through arrays apply to every element)
+export interface ProfileSelection {
+  // null means every service in SERVICES_CONFIG.
+  services: ServiceName[] | null;
+  // Property paths per service, without the service prefix. null means no projection.
+  fields: Partial<Record<ServiceName, string[][]>> | null;
+}
+
+export class ProfileSelectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProfileSelectionError';
+  }
+}
+
+type QueryValue = string | string[] | undefined;
+
+function splitList(value: QueryValue): string[] {
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  return values.flatMap((v) => v.split(',')).map((v) => v.trim()).filter(Boolean);
+}
+
+function unknownServicesMessage(names: string[]): string {
+  return `Unknown service${names.length > 1 ? 's' : ''}: ${names.join(', ')}. ` +
+    `Valid services: ${SERVICES_CONFIG.map((s) => s.name).join(', ')}`;
+}
+
+/**
+ * Parses `services` and `fields` from a request query. Throws `ProfileSelectionError`
+ * for unknown service names, malformed paths, or fields outside the requested services.
+ */
+export function parseProfileSelection(query: { services?: QueryValue; fields?: QueryValue }): ProfileSelection {
+  const serviceNames = splitList(query.services);
+  const unknownServices = serviceNames.filter((name) => !getServiceConfig(name));
+  if (unknownServices.length > 0) {
+    throw new ProfileSelectionError(unknownServicesMessage(unknownServices));
+  }
+  let services = serviceNames.length > 0 ? Array.from(new Set(serviceNames)) as ServiceName[] : null;
+
+  const fieldPaths = splitList(query.fields);
+  if (fieldPaths.length === 0) {
+    return { services, fields: null };
+  }
+
+  const fields: Partial<Record<ServiceName, string[][]>> = {};
+  const unknownFieldServices: string[] = [];
+  for (const fieldPath of fieldPaths) {
+    const [serviceName, ...path] = fieldPath.split('.');
+    if (!getServiceConfig(serviceName)) {
+      unknownFieldServices.push(serviceName);
+      continue;
+    }
+    if (path.some((segment) => segment === '')) {
+      throw new ProfileSelectionError(`Invalid field path: ${fieldPath}`);
+    }
+    const name = serviceName as ServiceName;
+    if (services && !services.includes(name)) {
+      throw new ProfileSelectionError(`Field ${fieldPath} is not in the requested services (${services.join(', ')})`);
+    }
+    (fields[name] ??= []).push(path);
+  }
+  if (unknownFieldServices.length > 0) {
+    throw new ProfileSelectionError(unknownServicesMessage(Array.from(new Set(unknownFieldServices))));
+  }
+
+  // Fields without `services` imply the services they reference.
+  services ??= SERVICES_CONFIG.map((s) => s.name).filter((name) => fields[name]);
+  return { services, fields };
+}
+
+// Keeps only `paths` of `value`; paths that don't exist are left out.
+function projectValue(value: unknown, paths: string[][]): unknown {
+  if (paths.some((path) => path.length === 0)) return value;
+  if (Array.isArray(value)) return value.map((item) => projectValue(item, paths));
+  if (value === null || typeof value !== 'object') return undefined;
+
+  const pathsByKey = new Map<string, string[][]>();
+  for (const [key, ...rest] of paths) {
+    pathsByKey.set(key, [...(pathsByKey.get(key) ?? []), rest]);
+  }
+
+  const projected: Record<string, unknown> = {};
+  for (const [key, rest] of pathsByKey) {
+    if (!Object.prototype.hasOwnProperty.call(value, key)) continue;
+    const child = projectValue((value as Record<string, unknown>)[key], rest);
+    if (child !== undefined) projected[key] = child;
+  }
+  return projected;
+}
+
+/**
+ * Applies the `fields` projection to a profile. Services without requested fields are
+ * dropped from `services`; the per-service metadata is left as built.
+ */
+export function projectProfileFields(profile: FastProfileData, fields: ProfileSelection['fields']): FastProfileData {
+  if (!fields) return profile;
+
+  const services: FastProfileData['services'] = {};
+  for (const [name, paths] of Object.entries(fields) as [ServiceName, string[][]][]) {
+    const data = profile.services[name];
+    services[name] = data == null ? data : projectValue(data, paths) as Record<string, unknown>;
+  }
+  return { ...profile, services };
+}
@@ -0,0 +1,154 @@
+import { lookup as dnsLookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+
+// A fetch for URLs taken from user-controlled data (ENS avatar records, NFT metadata).
+// Only http(s) URLs whose host resolves exclusively to public addresses are requested, and
+// redirects are followed by hand so every hop gets the same check. This stops records from
+// pointing the server at loopback, private networks or cloud metadata endpoints.
+// The host is resolved again by the HTTP client when connecting, so a DNS server that
+// answers differently the second time is not covered.
+
+const MAX_REDIRECTS = 5;
+
+export class UnsafeUrlError extends Error {
+  constructor(public readonly url: string, reason: string) {
+    super(`Refusing to fetch ${url}: ${reason}`);
+    this.name = 'UnsafeUrlError';
+  }
+}
+
+export type HostLookup = (hostname: string) => Promise<string[]>;
+
+export interface PublicFetchDependencies {
+  fetchFn?: typeof fetch;
+  lookup?: HostLookup;
+}
+
+const defaultLookup: HostLookup = async (hostname) =>
+  (await dnsLookup(hostname, { all: true, verbatim: true })).map(({ address }) => address);
+
+// [first address, prefix length] of IPv4 ranges that are not publicly routable.
+const RESERVED_IPV4: Array<[string, number]> = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, incl. cloud metadata
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // documentation
+  ['192.88.99.0', 24], // 6to4 relay
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24], // documentation
+  ['203.0.113.0', 24], // documentation
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, incl. broadcast
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function isReservedIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return RESERVED_IPV4.some(([base, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    const start = ipv4ToNumber(base);
+    return value >= start && value < start + size;
+  });
+}
+
+// Expands an IPv6 address to its eight 16-bit groups.
+function ipv6Groups(address: string): number[] {
+  let value = address.toLowerCase().split('%')[0];
+  const embeddedIpv4 = /(\d+\.\d+\.\d+\.\d+)$/.exec(value);
+  if (embeddedIpv4) {
+    const number = ipv4ToNumber(embeddedIpv4[1]);
+    value = value.slice(0, -embeddedIpv4[1].length) + `${(number >>> 16).toString(16)}:${(number & 0xffff).toString(16)}`;
+  }
+  const [head, tail] = value.split('::');
+  const parse = (part: string | undefined) => (part ? part.split(':').map((group) => parseInt(group, 16)) : []);
+  const start = parse(head);
+  const end = parse(tail);
+  const zeros = tail === undefined ? [] : new Array(8 - start.length - end.length).fill(0);
+  return [...start, ...zeros, ...end];
+}
+
+function isReservedIpv6(address: string): boolean {
+  const groups = ipv6Groups(address);
+  const [first] = groups;
+
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d): judge the embedded IPv4 address.
+  const isMapped = groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff;
+  const isNat64 = first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0);
+  if (isMapped || isNat64) {
+    return isReservedIpv4([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.'));
+  }
+
+  return (
+    groups.slice(0, 7).every((group) => group === 0) // :: and ::1
+    || (first & 0xfe00) === 0xfc00 // unique local
+    || (first & 0xffc0) === 0xfe80 // link-local
+    || (first & 0xff00) === 0xff00 // multicast
+    || (first === 0x2001 && groups[1] === 0x0db8) // documentation
+    || (first === 0x0100 && groups.slice(1, 4).every((group) => group === 0)) // discard-only
+  );
+}
+
+/**
+ * True for addresses a server-side fetch of user-supplied URLs must never reach.
+ */
+export function isReservedAddress(address: string): boolean {
+  switch (isIP(address)) {
+    case 4:
+      return isReservedIpv4(address);
+    case 6:
+      return isReservedIpv6(address);
+    default:
+      return true;
+  }
+}
+
+function requestUrl(input: RequestInfo | URL): string {
+  return typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+}
+
+export function createPublicFetch(dependencies: PublicFetchDependencies = {}): typeof fetch {
+  const { fetchFn = fetch, lookup = defaultLookup } = dependencies;
+
+  async function assertPublicUrl(url: URL): Promise<void> {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new UnsafeUrlError(url.href, `unsupported protocol ${url.protocol}`);
+    }
+    const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+    const addresses = isIP(hostname) ? [hostname] : await lookup(hostname);
+    if (addresses.length === 0) {
+      throw new UnsafeUrlError(url.href, 'host does not resolve');
+    }
+    const reserved = addresses.find(isReservedAddress);
+    if (reserved) {
+      throw new UnsafeUrlError(url.href, `host resolves to reserved address ${reserved}`);
+    }
+  }
+
+  return async (input: RequestInfo | URL, init?: RequestInit) => {
+    let url = new URL(requestUrl(input));
+
+    for (let redirects = 0; ; redirects++) {
+      await assertPublicUrl(url);
+      const response = await fetchFn(url.href, { ...init, redirect: 'manual' });
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        return response;
+      }
+      if (redirects === MAX_REDIRECTS) {
+        throw new UnsafeUrlError(url.href, `more than ${MAX_REDIRECTS} redirects`);
+      }
+      await response.body?.cancel();
+      url = new URL(location, url);
+    }
+  };
+}
+
+export const publicFetch = createPublicFetch();
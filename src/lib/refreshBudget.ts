@@ -0,0 +1,57 @@
+import { SERVICES_CONFIG } from './cacheStore';
+
+// How much work one invocation may spend on draining the sync queue. Set through env
+// so deployments with a longer `maxDuration` (or a higher upstream quota) can fill a
+// cold profile in a single background run:
+// - BACKGROUND_REFRESH_CONCURRENCY: collectors run at the same time (default 4)
+// - BACKGROUND_REFRESH_MAX_SERVICES: jobs one profile request may take (default: every service)
+// - FUNCTION_MAX_DURATION_SECONDS: the function's `maxDuration` (default 60, as in vercel.json)
+// - BACKGROUND_REFRESH_BUDGET_SECONDS: seconds of that duration to spend (default 75% of it)
+export interface RefreshBudget {
+  concurrency: number;
+  maxJobs: number;
+  budgetMs: number;
+  maxDurationMs: number;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_MAX_DURATION_SECONDS = 60;
+// Leaves headroom for the response, cache writes and a cold start.
+const DEFAULT_BUDGET_FRACTION = 0.75;
+
+type Env = Record<string, string | undefined>;
+
+function readPositiveNumber(env: Env, name: string, fallback: number): number {
+  const raw = env[name];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) {
+    console.warn(`[refresh-budget] Ignoring invalid ${name}=${raw}; using ${fallback}`);
+    return fallback;
+  }
+  return value;
+}
+
+export function getRefreshBudget(env: Env = process.env): RefreshBudget {
+  const maxDurationSeconds = readPositiveNumber(env, 'FUNCTION_MAX_DURATION_SECONDS', DEFAULT_MAX_DURATION_SECONDS);
+  const budgetSeconds = Math.min(
+    readPositiveNumber(env, 'BACKGROUND_REFRESH_BUDGET_SECONDS', maxDurationSeconds * DEFAULT_BUDGET_FRACTION),
+    maxDurationSeconds,
+  );
+
+  return {
+    concurrency: Math.floor(readPositiveNumber(env, 'BACKGROUND_REFRESH_CONCURRENCY', DEFAULT_CONCURRENCY)),
+    maxJobs: Math.floor(readPositiveNumber(env, 'BACKGROUND_REFRESH_MAX_SERVICES', SERVICES_CONFIG.length)),
+    budgetMs: budgetSeconds * 1000,
+    maxDurationMs: maxDurationSeconds * 1000,
+  };
+}
+
+/**
+ * Whether a collector with the given timeout can still finish before `deadline`
+ * (epoch ms). No deadline means no time budget.
+ */
+export function fitsInBudget(timeoutMs: number, deadline: number | undefined, now = Date.now()): boolean {
+  if (deadline === undefined) return true;
+  return now + timeoutMs <= deadline;
+}
@@ -0,0 +1,232 @@
+import { createTransport, http, HttpRequestError, RpcRequestError, TimeoutError, type EIP1193RequestFn, type Transport } from 'viem';
+
+// Mainnet JSON-RPC access shared by everything that reads the chain (today: the ENS resolver).
+// Endpoints come from env, in preference order:
+// - ALCHEMY_RPC_URL, or ALCHEMY_API_KEY turned into an Alchemy URL
+// - ETH_RPC_URLS: comma-separated extra endpoints (default: a few public RPCs)
+// - ETH_RPC_TIMEOUT_MS: per-attempt timeout (default 3000)
+// Each request goes to the healthiest endpoint and fails over to the next one when the
+// endpoint (not the call) fails, so one flaky public RPC doesn't fail the lookup.
+
+const DEFAULT_PUBLIC_RPC_URLS = [
+  'https://eth.llamarpc.com',
+  'https://rpc.ankr.com/eth',
+  'https://ethereum-rpc.publicnode.com',
+];
+const DEFAULT_TIMEOUT_MS = 3000;
+// Attempts per request; with the default timeout this stays inside a collector's 10s budget.
+const MAX_ATTEMPTS = 3;
+
+// Endpoints start with this latency so untried ones keep their configured order.
+const INITIAL_LATENCY_MS = 500;
+// Weight of the newest sample in the moving averages.
+const EWMA_ALPHA = 0.3;
+// How much a 100% error rate adds to an endpoint's score.
+const ERROR_PENALTY_MS = 5000;
+// Consecutive failures that bench an endpoint (it is still tried when nothing else is left).
+const COOL_DOWN_AFTER_FAILURES = 3;
+const COOL_DOWN_MS = 30 * 1000;
+
+// JSON-RPC errors that mean the node couldn't serve the call (rate limit, overload), as
+// opposed to the call itself failing (revert, bad params), which any node would repeat.
+const ENDPOINT_RPC_ERROR_CODES = new Set([-32001, -32002, -32005, -32603]);
+
+type Env = Record<string, string | undefined>;
+
+export function getRpcUrls(env: Env = process.env): string[] {
+  const alchemyRpcUrl =
+    env.ALCHEMY_RPC_URL ||
+    (env.ALCHEMY_API_KEY ? `https://eth-mainnet.g.alchemy.com/v2/${env.ALCHEMY_API_KEY}` : undefined);
+  const configured = env.ETH_RPC_URLS
+    ? env.ETH_RPC_URLS.split(',').map((url) => url.trim()).filter(Boolean)
+    : DEFAULT_PUBLIC_RPC_URLS;
+  return Array.from(new Set([...(alchemyRpcUrl ? [alchemyRpcUrl] : []), ...configured]));
+}
+
+export interface RpcEndpointHealth {
+  // Host only; paths and query strings often carry API keys.
+  endpoint: string;
+  requests: number;
+  failures: number;
+  errorRate: number;
+  latencyMs: number;
+  consecutiveFailures: number;
+  coolingDownUntil: string | null;
+  lastError: string | null;
+  lastFailureAt: string | null;
+  score: number;
+}
+
+interface EndpointState {
+  url: string;
+  requests: number;
+  failures: number;
+  errorRate: number;
+  latencyMs: number;
+  consecutiveFailures: number;
+  coolingDownUntil: number | null;
+  lastError: string | null;
+  lastFailureAt: number | null;
+}
+
+export interface RpcHealthTracker {
+  urls: readonly string[];
+  // Healthiest first; benched endpoints last.
+  rank: (now?: number) => string[];
+  recordSuccess: (url: string, latencyMs: number, now?: number) => void;
+  recordFailure: (url: string, error: unknown, latencyMs: number, now?: number) => void;
+  getHealth: (now?: number) => RpcEndpointHealth[];
+}
+
+function describeEndpoint(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'invalid-url';
+  }
+}
+
+function getScore(state: EndpointState): number {
+  return state.latencyMs + state.errorRate * ERROR_PENALTY_MS;
+}
+
+function isCoolingDown(state: EndpointState, now: number): boolean {
+  return state.coolingDownUntil !== null && now < state.coolingDownUntil;
+}
+
+export function createRpcHealthTracker(urls: readonly string[]): RpcHealthTracker {
+  const states = urls.map<EndpointState>((url) => ({
+    url,
+    requests: 0,
+    failures: 0,
+    errorRate: 0,
+    latencyMs: INITIAL_LATENCY_MS,
+    consecutiveFailures: 0,
+    coolingDownUntil: null,
+    lastError: null,
+    lastFailureAt: null,
+  }));
+  const byUrl = new Map(states.map((state) => [state.url, state]));
+
+  function record(url: string, failed: boolean, latencyMs: number) {
+    const state = byUrl.get(url);
+    if (!state) return null;
+    state.requests += 1;
+    state.latencyMs = state.requests === 1 ? latencyMs : state.latencyMs + EWMA_ALPHA * (latencyMs - state.latencyMs);
+    state.errorRate += EWMA_ALPHA * ((failed ? 1 : 0) - state.errorRate);
+    return state;
+  }
+
+  return {
+    urls,
+    rank: (now = Date.now()) =>
+      states
+        .map((state, index) => ({ state, index }))
+        .sort((a, b) =>
+          Number(isCoolingDown(a.state, now)) - Number(isCoolingDown(b.state, now)) ||
+          getScore(a.state) - getScore(b.state) ||
+          a.index - b.index)
+        .map(({ state }) => state.url),
+    recordSuccess: (url, latencyMs) => {
+      const state = record(url, false, latencyMs);
+      if (!state) return;
+      state.consecutiveFailures = 0;
+      state.coolingDownUntil = null;
+    },
+    recordFailure: (url, error, latencyMs, now = Date.now()) => {
+      const state = record(url, true, latencyMs);
+      if (!state) return;
+      state.failures += 1;
+      state.consecutiveFailures += 1;
+      state.lastError = error instanceof Error ? (error as Error & { shortMessage?: string }).shortMessage ?? error.message : String(error);
+      state.lastFailureAt = now;
+      if (state.consecutiveFailures >= COOL_DOWN_AFTER_FAILURES) {
+        state.coolingDownUntil = now + COOL_DOWN_MS;
+        console.warn(`[rpc] ${describeEndpoint(url)} failed ${state.consecutiveFailures} times in a row; benched for ${COOL_DOWN_MS / 1000}s`);
+      }
+    },
+    getHealth: (now = Date.now()) =>
+      states.map((state) => ({
+        endpoint: describeEndpoint(state.url),
+        requests: state.requests,
+        failures: state.failures,
+        errorRate: Math.round(state.errorRate * 1000) / 1000,
+        latencyMs: Math.round(state.latencyMs),
+        consecutiveFailures: state.consecutiveFailures,
+        coolingDownUntil: isCoolingDown(state, now) ? new Date(state.coolingDownUntil!).toISOString() : null,
+        lastError: state.lastError,
+        lastFailureAt: state.lastFailureAt ? new Date(state.lastFailureAt).toISOString() : null,
+        score: Math.round(getScore(state)),
+      })),
+  };
+}
+
+export function isEndpointFailure(error: unknown): boolean {
+  if (error instanceof HttpRequestError || error instanceof TimeoutError) return true;
+  return error instanceof RpcRequestError && ENDPOINT_RPC_ERROR_CODES.has(error.code);
+}
+
+export interface FailoverTransportOptions {
+  timeoutMs?: number;
+  maxAttempts?: number;
+  // Builds the transport for one endpoint (injectable for tests).
+  createEndpointTransport?: (url: string, timeoutMs: number) => Transport;
+}
+
+/**
+ * A viem transport over every endpoint of `tracker`: each request is sent to the
+ * healthiest endpoint, and endpoint failures (HTTP errors, timeouts, rate limits) move
+ * on to the next one. Errors from the call itself are returned as-is.
+ */
+export function failoverTransport(tracker: RpcHealthTracker, options: FailoverTransportOptions = {}): Transport {
+  const {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxAttempts = MAX_ATTEMPTS,
+    createEndpointTransport = (url, timeout) => http(url, { timeout, retryCount: 0 }),
+  } = options;
+
+  return (config) => {
+    const endpoints = new Map(
+      tracker.urls.map((url) => [url, createEndpointTransport(url, timeoutMs)({ ...config, retryCount: 0 })]),
+    );
+
+    const request = (async (args) => {
+      let lastError: unknown = new Error('No RPC endpoints configured');
+      for (const url of tracker.rank().slice(0, maxAttempts)) {
+        const startedAt = Date.now();
+        try {
+          const result = await endpoints.get(url)!.request(args);
+          tracker.recordSuccess(url, Date.now() - startedAt);
+          return result;
+        } catch (error) {
+          if (!isEndpointFailure(error)) {
+            // The node answered; another node would give the same answer.
+            tracker.recordSuccess(url, Date.now() - startedAt);
+            throw error;
+          }
+          tracker.recordFailure(url, error, Date.now() - startedAt);
+          lastError = error;
+        }
+      }
+      throw lastError;
+    }) as EIP1193RequestFn;
+
+    return createTransport({
+      key: 'failover',
+      name: 'Failover RPC',
+      type: 'failover',
+      request,
+      retryCount: 0,
+      timeout: timeoutMs * maxAttempts,
+    });
+  };
+}
+
+function readTimeout(env: Env): number {
+  const value = Number(env.ETH_RPC_TIMEOUT_MS);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_TIMEOUT_MS;
+}
+
+export const mainnetRpcHealth = createRpcHealthTracker(getRpcUrls());
+
+export const mainnetTransport = failoverTransport(mainnetRpcHealth, { timeoutMs: readTimeout(process.env) });
@@ -0,0 +1,85 @@
+import { prisma } from '../../lib/prisma';
+import { toAddressKey } from './addressResolver';
+import { addRecentUpdateEvent, getErrorBackoffMs, SERVICES_CONFIG } from './cacheStore';
+import { CircuitOpenError } from './circuitBreaker';
+import { CollectorError, runCollector } from './collectors';
+
+type ServiceConfig = (typeof SERVICES_CONFIG)[number];
+
+async function recordServiceFailure(
+  normalizedAddress: string,
+  service: ServiceConfig,
+  message: string,
+  errorName: string,
+): Promise<void> {
+  const existing = await prisma.service_cache.findUnique({
+    where: { address_service: { address: normalizedAddress, service: service.name } },
+    select: { error_count: true },
+  });
+  const errorCount = (existing?.error_count ?? 0) + 1;
+  const now = new Date();
+  const shortExpiry = new Date(now.getTime() + getErrorBackoffMs(service, errorCount));
+
+  console.log(`[fast-profile:error:${normalizedAddress}] Service ${service.name} failed. Upserting error to DB with default data: ${JSON.stringify(service.defaultData)}, last_error: ${message}`);
+  await prisma.service_cache.upsert({
+    where: { address_service: { address: normalizedAddress, service: service.name } },
+    update: { error_count: { increment: 1 }, last_error: message, expires_at: shortExpiry, last_updated: now },
+    create: {
+      address: normalizedAddress,
+      service: service.name,
+      data: JSON.stringify(service.defaultData),
+      last_error: message,
+      error_count: errorCount,
+      expires_at: shortExpiry,
+      last_updated: now
+    },
+  });
+  addRecentUpdateEvent({
+    address: normalizedAddress,
+    status: 'service_failed',
+    serviceName: service.name,
+    message,
+    errorName
+  });
+}
+
+/**
+ * Runs a single service's collector in-process and writes the outcome (data or error)
+ * into `service_cache`. Collector failures are recorded in the cache row rather than
+ * thrown; only unexpected failures (e.g. the database write itself) reject, and so does a
+ * `CircuitOpenError`, which leaves the row untouched for the caller to retry after the cool-off.
+ */
+export async function refreshServiceCache(address: string, service: ServiceConfig): Promise<void> {
+  const normalizedAddress = toAddressKey(address);
+  const serviceTimeoutMs = service.timeoutMs ?? 10000;
+
+  let serviceDataJson: string;
+  let partial = false;
+  try {
+    console.log(`[fast-profile:debug:${normalizedAddress}] Collecting service: ${service.name}`);
+    const data = await runCollector(service.name, normalizedAddress, serviceTimeoutMs);
+    console.log(`[fast-profile:debug:${normalizedAddress}] Service ${service.name} OK. Data keys: ${Object.keys(data ?? {}).join(', ')}`);
+    serviceDataJson = JSON.stringify(data ?? null);
+    // Partial results are served but retried as soon as a failure would be.
+    partial = (data as { partial?: unknown } | null)?.partial === true;
+  } catch (error) {
+    // An open breaker says nothing about this address, so the cached data stays as it is.
+    if (error instanceof CircuitOpenError) throw error;
+    const err = error instanceof Error ? error : new Error('Unknown collector error');
+    const errorName = err instanceof CollectorError ? `CollectorError${err.status}` : err.name;
+    console.error(`[fast-profile:error:${normalizedAddress}] Service ${service.name} failed: ${err.message}`, err);
+    await recordServiceFailure(normalizedAddress, service, err.message, errorName);
+    return;
+  }
+
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + (partial ? service.errorTtlMs : service.successTtlMs));
+
+  console.log(`[fast-profile:debug:${normalizedAddress}] Service ${service.name} OK. Upserting to DB: data length ${serviceDataJson.length}, expires_at: ${expiresAt.toISOString()}`);
+  await prisma.service_cache.upsert({
+    where: { address_service: { address: normalizedAddress, service: service.name } },
+    update: { data: serviceDataJson, last_updated: now, expires_at: expiresAt, error_count: 0, last_error: null },
+    create: { address: normalizedAddress, service: service.name, data: serviceDataJson, last_updated: now, expires_at: expiresAt },
+  });
+  addRecentUpdateEvent({ address: normalizedAddress, status: 'service_updated', serviceName: service.name });
+}
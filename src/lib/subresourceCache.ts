@@ -0,0 +1,112 @@
+// Cache for optional, on-demand data that hangs off a service's main result (e.g. a
+// Farcaster user's recent casts). Each resource has its own TTL, independent of the
+// parent service's `service_cache` row, and is only fetched when someone asks for it.
+// Rows live in `subresource_cache`, keyed by (service, resource, key).
+
+export interface CachedSubresource {
+  data: unknown;
+  fetchedAt: Date;
+  expiresAt: Date;
+}
+
+export interface SubresourceStore {
+  get: (service: string, resource: string, key: string) => Promise<CachedSubresource | null>;
+  set: (service: string, resource: string, key: string, entry: CachedSubresource) => Promise<void>;
+}
+
+export interface SubresourceResult<T> {
+  data: T;
+  fetchedAt: string;
+  expiresAt: string;
+  // True when the refresh failed and an expired entry was served instead.
+  stale: boolean;
+}
+
+export interface SubresourceCache {
+  get: <T>(service: string, resource: string, key: string, ttlMs: number, fetchValue: () => Promise<T>) => Promise<SubresourceResult<T>>;
+}
+
+export interface SubresourceCacheDependencies {
+  store: SubresourceStore;
+  now?: () => Date;
+}
+
+function toResult<T>(entry: CachedSubresource, stale: boolean): SubresourceResult<T> {
+  return {
+    data: entry.data as T,
+    fetchedAt: entry.fetchedAt.toISOString(),
+    expiresAt: entry.expiresAt.toISOString(),
+    stale,
+  };
+}
+
+/**
+ * Serves fresh entries from the store, shares one fetch between concurrent requests for
+ * the same resource, and falls back to the expired entry when the fetch fails.
+ */
+export function createSubresourceCache(dependencies: SubresourceCacheDependencies): SubresourceCache {
+  const { store, now = () => new Date() } = dependencies;
+  const inFlight = new Map<string, Promise<SubresourceResult<unknown>>>();
+
+  async function load<T>(service: string, resource: string, key: string, ttlMs: number, fetchValue: () => Promise<T>) {
+    const label = `${service}/${resource}/${key}`;
+    const cached = await store.get(service, resource, key).catch((error) => {
+      console.error(`[subresource-cache] Failed to read ${label}:`, error);
+      return null;
+    });
+    if (cached && cached.expiresAt > now()) return toResult<T>(cached, false);
+
+    let data: T;
+    try {
+      data = await fetchValue();
+    } catch (error) {
+      if (cached) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`[subresource-cache] Refreshing ${label} failed (${message}); serving expired entry`);
+        return toResult<T>(cached, true);
+      }
+      throw error;
+    }
+
+    const fetchedAt = now();
+    const entry = { data, fetchedAt, expiresAt: new Date(fetchedAt.getTime() + ttlMs) };
+    await store.set(service, resource, key, entry).catch((error) => {
+      console.error(`[subresource-cache] Failed to save ${label}:`, error);
+    });
+    return toResult<T>(entry, false);
+  }
+
+  return {
+    get: <T>(service: string, resource: string, key: string, ttlMs: number, fetchValue: () => Promise<T>) => {
+      const id = `${service}:${resource}:${key}`;
+      let pending = inFlight.get(id);
+      if (!pending) {
+        pending = load(service, resource, key, ttlMs, fetchValue).finally(() => inFlight.delete(id));
+        inFlight.set(id, pending);
+      }
+      return pending as Promise<SubresourceResult<T>>;
+    },
+  };
+}
+
+// Loaded lazily so modules using the cache (and their tests) can be imported without a database client.
+export const prismaSubresourceStore: SubresourceStore = {
+  get: async (service, resource, key) => {
+    const { prisma } = await import('../../lib/prisma');
+    const row = await prisma.subresource_cache.findUnique({
+      where: { service_resource_key: { service, resource, key } },
+    });
+    return row ? { data: JSON.parse(row.data), fetchedAt: row.fetched_at, expiresAt: row.expires_at } : null;
+  },
+  set: async (service, resource, key, { data, fetchedAt, expiresAt }) => {
+    const { prisma } = await import('../../lib/prisma');
+    const serialized = JSON.stringify(data);
+    await prisma.subresource_cache.upsert({
+      where: { service_resource_key: { service, resource, key } },
+      update: { data: serialized, fetched_at: fetchedAt, expires_at: expiresAt },
+      create: { service, resource, key, data: serialized, fetched_at: fetchedAt, expires_at: expiresAt },
+    });
+  },
+};
+
+export const subresourceCache: SubresourceCache = createSubresourceCache({ store: prismaSubresourceStore });
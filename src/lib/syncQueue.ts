@@ -0,0 +1,135 @@
+import { prisma } from '../../lib/prisma';
+import { toAddressKey } from './addressResolver';
+import { getServiceConfig, ServiceName } from './cacheStore';
+
+export interface SyncJob {
+  id: number;
+  address: string;
+  service: string;
+  priority: number;
+  attempts: number;
+}
+
+// A claimed job whose worker has not reported back within this window is assumed
+// to belong to a dead instance (cold start recycled, function timeout) and can be reclaimed.
+const SYNC_LEASE_MS = 2 * 60 * 1000;
+// Minimum delay before a job that failed is eligible to be claimed again.
+const SYNC_RETRY_DELAY_MS = 30 * 1000;
+export const MAX_SYNC_ATTEMPTS = 5;
+
+export const DEFAULT_SYNC_PRIORITY = 1;
+// Base priority for services with nothing servable in the cache. It outweighs any
+// renderPriority, so they are always refreshed before services that are merely stale.
+export const EXPIRED_SYNC_PRIORITY = 100;
+
+export interface SyncRequest {
+  address: string;
+  services: readonly ServiceName[];
+  priority: number;
+}
+
+/**
+ * Adds one queue row per (address, service). Rows that are already queued are left
+ * untouched, so repeated page loads don't pile up duplicate work. Each service's
+ * `renderPriority` is added to `priority`, so cards near the top of the page fill first.
+ */
+export async function enqueueSyncRequests(requests: readonly SyncRequest[]): Promise<number> {
+  const data = requests.flatMap(({ address, services, priority }) =>
+    services.map((service) => ({
+      address: toAddressKey(address),
+      service,
+      priority: priority + (getServiceConfig(service)?.renderPriority ?? 0),
+    })),
+  );
+  if (data.length === 0) return 0;
+
+  const result = await prisma.sync_queue.createMany({ data, skipDuplicates: true });
+  return result.count;
+}
+
+/**
+ * Expired or missing services are queued ahead of ones still inside their stale-serve window.
+ */
+export function buildRefreshRequests(
+  address: string,
+  servicesNeedingRefresh: readonly ServiceName[],
+  expiredServices: readonly ServiceName[],
+): SyncRequest[] {
+  const staleServices = servicesNeedingRefresh.filter((name) => !expiredServices.includes(name));
+  return [
+    { address, services: expiredServices, priority: EXPIRED_SYNC_PRIORITY },
+    { address, services: staleServices, priority: DEFAULT_SYNC_PRIORITY },
+  ];
+}
+
+/**
+ * Atomically claims up to `limit` jobs for this worker. `FOR UPDATE SKIP LOCKED`
+ * guarantees two instances never claim the same (address, service) row; the
+ * `processing` flag plus `last_attempt` act as a lease for crash recovery.
+ * With `addresses`, only jobs of those addresses are claimed.
+ */
+export async function claimSyncJobs(limit: number, addresses?: readonly string[]): Promise<SyncJob[]> {
+  if (limit <= 0 || addresses?.length === 0) return [];
+  const leaseExpiredBefore = new Date(Date.now() - SYNC_LEASE_MS);
+  const addressFilter = addresses ? addresses.map(toAddressKey) : null;
+
+  const jobs: SyncJob[] = await prisma.$queryRaw`
+    UPDATE sync_queue
+    SET processing = true, attempts = attempts + 1, last_attempt = NOW()
+    WHERE id IN (
+      SELECT id FROM sync_queue
+      WHERE (
+        (processing = false AND (run_after IS NULL OR run_after <= NOW()))
+        OR (processing = true AND last_attempt < ${leaseExpiredBefore})
+      )
+      AND (${addressFilter}::text[] IS NULL OR address = ANY(${addressFilter}::text[]))
+      ORDER BY priority DESC, created_at ASC
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id, address, service, priority, attempts
+  `;
+
+  // RETURNING does not preserve the sub-select ordering.
+  return jobs.sort((a, b) => b.priority - a.priority || a.id - b.id);
+}
+
+export async function completeSyncJob(job: SyncJob): Promise<void> {
+  await prisma.sync_queue.deleteMany({ where: { id: job.id } });
+}
+
+/**
+ * Releases a job after an unexpected failure. It becomes claimable again after
+ * the retry delay, and is dropped once it has used up its attempts.
+ */
+export async function failSyncJob(job: SyncJob, errorMessage: string): Promise<void> {
+  if (job.attempts >= MAX_SYNC_ATTEMPTS) {
+    console.error(`[sync-queue] Dropping ${job.service} for ${job.address} after ${job.attempts} attempts: ${errorMessage}`);
+    await prisma.sync_queue.deleteMany({ where: { id: job.id } });
+    return;
+  }
+
+  await prisma.sync_queue.updateMany({
+    where: { id: job.id },
+    data: { processing: false, error: errorMessage, run_after: new Date(Date.now() + SYNC_RETRY_DELAY_MS) },
+  });
+}
+
+/**
+ * Puts a claimed job back without counting it as an attempt, e.g. while the
+ * upstream provider's circuit breaker is open.
+ */
+export async function deferSyncJob(job: SyncJob, runAfter: Date, reason: string): Promise<void> {
+  await prisma.sync_queue.updateMany({
+    where: { id: job.id },
+    data: { processing: false, attempts: { decrement: 1 }, error: reason, run_after: runAfter },
+  });
+}
+
+export async function getSyncQueueStats(): Promise<{ pending: number; processing: number }> {
+  const [pending, processing] = await Promise.all([
+    prisma.sync_queue.count({ where: { processing: false } }),
+    prisma.sync_queue.count({ where: { processing: true } }),
+  ]);
+  return { pending, processing };
+}
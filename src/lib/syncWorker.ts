@@ -0,0 +1,170 @@
+import { toAddressKey } from './addressResolver';
+import { addRecentUpdateEvent, globalFetchLock, SERVICES_CONFIG, ServiceName } from './cacheStore';
+import { CircuitOpenError, getCircuitRetryAt, isCircuitOpen } from './circuitBreaker';
+import { fitsInBudget, getRefreshBudget } from './refreshBudget';
+import { refreshServiceCache } from './serviceRefresh';
+import {
+  buildRefreshRequests,
+  claimSyncJobs,
+  completeSyncJob,
+  deferSyncJob,
+  enqueueSyncRequests,
+  failSyncJob,
+  MAX_SYNC_ATTEMPTS,
+  SyncJob,
+} from './syncQueue';
+
+export interface DrainOptions {
+  // Restrict the drain to a single address (used when a profile page triggers the refresh).
+  address?: string;
+  // Restrict the drain to these addresses (used by batch profile requests).
+  addresses?: readonly string[];
+  maxJobs: number;
+  concurrency?: number;
+  // Epoch ms by which every started collector must be able to finish (see `getRefreshBudget`).
+  deadline?: number;
+}
+
+export interface DrainResult {
+  processed: number;
+  failed: number;
+  deferred: number;
+}
+
+// Resolves to false when the job was put back because the time budget is spent.
+async function processSyncJob(job: SyncJob, result: DrainResult, deadline?: number): Promise<boolean> {
+  const service = SERVICES_CONFIG.find((s) => s.name === job.service);
+  if (!service || job.attempts > MAX_SYNC_ATTEMPTS) {
+    // Unknown service (config changed since enqueue) or a job that keeps killing its worker.
+    await completeSyncJob(job);
+    return true;
+  }
+
+  if (isCircuitOpen(service.provider)) {
+    // Calling the collector now would only overwrite the cache with an error; wait for the cool-off.
+    const retryAt = (service.provider && getCircuitRetryAt(service.provider)) || new Date(Date.now() + 60 * 1000);
+    await deferSyncJob(job, retryAt, `Circuit breaker open for ${service.provider}`);
+    result.deferred += 1;
+    return true;
+  }
+
+  if (!fitsInBudget(service.timeoutMs, deadline)) {
+    // The collector could outlive the function; leave it for the next poll or cron run.
+    await deferSyncJob(job, new Date(), 'Background refresh time budget exhausted');
+    result.deferred += 1;
+    return false;
+  }
+
+  try {
+    await refreshServiceCache(job.address, service);
+    await completeSyncJob(job);
+    result.processed += 1;
+  } catch (error) {
+    if (error instanceof CircuitOpenError) {
+      // A scoped breaker (e.g. one Alchemy network) the check above can't see.
+      await deferSyncJob(job, error.retryAt, error.message);
+      result.deferred += 1;
+      return true;
+    }
+    const err = error instanceof Error ? error : new Error(String(error));
+    console.error(`[sync-worker] Job ${job.id} (${job.service} for ${job.address}) failed: ${err.message}`, err);
+    result.failed += 1;
+    await failSyncJob(job, err.message).catch((releaseError) => {
+      console.error(`[sync-worker] Failed to release job ${job.id}:`, releaseError);
+    });
+  }
+  return true;
+}
+
+/**
+ * Claims and processes queued jobs until the queue is empty, `maxJobs` have been taken or
+ * the time budget is spent. Each of the `concurrency` runners claims the highest-priority
+ * job as soon as it is free, so one slow collector doesn't hold up the others.
+ * Safe to run from any number of instances at once; row locking in `claimSyncJobs`
+ * keeps them from duplicating work.
+ */
+export async function drainSyncQueue(options: DrainOptions): Promise<DrainResult> {
+  const { address, addresses, maxJobs, concurrency = 1, deadline } = options;
+  const addressFilter = address ? [address] : addresses;
+  const result: DrainResult = { processed: 0, failed: 0, deferred: 0 };
+  let claimed = 0;
+  let queueEmpty = false;
+
+  const runner = async () => {
+    while (!queueEmpty && claimed < maxJobs) {
+      claimed += 1;
+      const [job] = await claimSyncJobs(1, addressFilter);
+      if (!job) {
+        queueEmpty = true;
+        return;
+      }
+      const withinBudget = await processSyncJob(job, result, deadline);
+      if (!withinBudget) return;
+    }
+  };
+
+  const runnerCount = Math.max(1, Math.min(concurrency, maxJobs));
+  await Promise.all(Array.from({ length: runnerCount }, runner));
+
+  return result;
+}
+
+/**
+ * Drains the queued jobs of one address in the background. Concurrent triggers for the
+ * same address within this instance share a single drain via `globalFetchLock`.
+ */
+export function triggerSyncForAddress(address: string, options: Omit<DrainOptions, 'address' | 'addresses'>): Promise<void> {
+  const normalizedAddress = toAddressKey(address);
+
+  const existingPromise = globalFetchLock.get(normalizedAddress);
+  if (existingPromise) return existingPromise;
+
+  addRecentUpdateEvent({ address: normalizedAddress, status: 'fetch_started' });
+  const drainPromise = (async () => {
+    try {
+      await drainSyncQueue({ ...options, address: normalizedAddress });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Outer background fetch error');
+      addRecentUpdateEvent({
+        address: normalizedAddress,
+        status: 'fetch_failed',
+        message: err.message,
+        errorName: err.name
+      });
+    } finally {
+      globalFetchLock.delete(normalizedAddress);
+      addRecentUpdateEvent({ address: normalizedAddress, status: 'fetch_completed' });
+    }
+  })();
+
+  globalFetchLock.set(normalizedAddress, drainPromise);
+  return drainPromise;
+}
+
+/**
+ * Queues the services a profile response found stale and drains them for that address
+ * within the request's refresh budget. Stale services go to the durable sync_queue so the
+ * refresh survives this instance being recycled; anything not drained here is picked up by
+ * later requests or /api/sync-worker. Never rejects; failures are recorded as events.
+ */
+export function scheduleAddressRefresh(
+  address: string,
+  servicesNeedingRefresh: readonly ServiceName[],
+  expiredServices: readonly ServiceName[],
+  startTime: number,
+): Promise<void> {
+  const normalizedAddress = toAddressKey(address);
+  const { concurrency, maxJobs, budgetMs } = getRefreshBudget();
+
+  return enqueueSyncRequests(buildRefreshRequests(normalizedAddress, servicesNeedingRefresh, expiredServices))
+    .then(() => triggerSyncForAddress(normalizedAddress, { maxJobs, concurrency, deadline: startTime + budgetMs }))
+    .catch(err => {
+      const errorInstance = err instanceof Error ? err : new Error(String(err));
+      addRecentUpdateEvent({
+        address: normalizedAddress,
+        status: 'fetch_failed',
+        message: `Background fetch trigger error: ${errorInstance.message}`,
+        errorName: errorInstance.name
+      });
+    });
+}
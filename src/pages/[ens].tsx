@@ -2,10 +2,12 @@
 import { useEffect, useState } from 'react';
 import { GetServerSideProps } from 'next';
 import Head from 'next/head';
-import { Box, Container, Heading, Text, VStack, Separator, Button, SimpleGrid, HStack, Badge, Spinner } from '@chakra-ui/react';
+import { Box, Container, Heading, Text, VStack, Separator, Button, SimpleGrid, HStack, Badge, Spinner, Link } from '@chakra-ui/react';
 import Image from 'next/image';
 import { useFastProfile } from '../hooks/useFastProfile';
+import type { XmtpResult } from '../lib/collectors/xmtp';
 import { prisma } from '../../lib/prisma';
+import { ens_normalize } from '@adraffy/ens-normalize';
 import {
   FastENSCard,
   FastXMTPCard,
@@ -19,17 +21,6 @@ import {
   FastDecentralandCard
 } from '../components/FastServiceCards';
 
-// Add this function
-function convertToGatewayUrl(ipfsUrl: string | null): string | null {
-  if (!ipfsUrl) return null;
-  const ipfsPrefix = 'ipfs://';
-  if (ipfsUrl.startsWith(ipfsPrefix)) {
-    const cid = ipfsUrl.substring(ipfsPrefix.length);
-    return `https://gateway.pinata.cloud/ipfs/${cid}`;
-  }
-  return ipfsUrl; // Return original URL if it's not an IPFS URL
-}
-
 interface ProfilePageProps {
   ensName: string;
   address: string | null;
@@ -56,13 +47,28 @@ export const getServerSideProps: GetServerSideProps<ProfilePageProps> = async (c
   }
 
   try {
+    // Cached rows are keyed by the normalized name; an invalid name is reported by the client-side resolve.
+    let normalizedName = ensName;
+    try {
+      normalizedName = ens_normalize(ensName);
+    } catch {
+      return { props: { ensName, address: null, avatar: null } };
+    }
+
     // Fast path: return cached ENS data instantly if we have it.
     const cached = await prisma.cached_profiles.findUnique({
-      where: { ens_name: ensName },
+      where: { ens_name: normalizedName },
       select: { profile_data: true },
     });
 
-    if (!cached?.profile_data) return { props: { ensName, address: null, avatar: null } };
+    if (!cached?.profile_data) {
+      // The name may already be resolved by an earlier fast-profile request.
+      const alias = await prisma.ens_records.findUnique({
+        where: { kind_key: { kind: 'address', key: normalizedName } },
+        select: { value: true },
+      });
+      return { props: { ensName, address: alias?.value ?? null, avatar: null } };
+    }
 
     const parsed = JSON.parse(cached.profile_data) as { address?: string; profile_data?: { ens_avatar?: string | null } };
     const address = typeof parsed.address === 'string' ? parsed.address : null;
@@ -159,7 +165,8 @@ export default function ProfilePage({ ensName, address, avatar }: ProfilePagePro
   } = useFastProfile(resolvedAddress, {
     pollInterval: 30000, // Poll every 30 seconds
     initialPollDelay: 10000, // Wait 10s before first background update
-    enablePolling: true,
+    enablePolling: true, // Only used if the live stream is unavailable
+    stream: true,
   }, ensName);
 
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -204,7 +211,15 @@ export default function ProfilePage({ ensName, address, avatar }: ProfilePagePro
     );
   }
 
-  const avatarUrl = resolvedAvatar ? convertToGatewayUrl(resolvedAvatar) : null;
+  // Avatars go through the ENSIP-12 proxy, which handles NFT, IPFS, Arweave and data: records.
+  const avatarName = (() => {
+    if (isEnsName(ensName)) return resolvedAvatar ? ensName : null;
+    const ensData = (data?.services?.ens as any) ?? null;
+    return ensData?.avatar && typeof ensData.primaryName === 'string' && isEnsName(ensData.primaryName)
+      ? ensData.primaryName
+      : null;
+  })();
+  const avatarUrl = avatarName ? `/api/avatar/${encodeURIComponent(avatarName)}` : null;
   const cacheStats = getCacheStats();
   const ensNamesCount = (() => {
     const ensData = (data?.services?.ens as any) ?? null;
@@ -249,6 +264,28 @@ export default function ProfilePage({ ensName, address, avatar }: ProfilePagePro
     return null;
   })();
   const xmtpCardData = xmtp && convergeUser ? { ...xmtp, convergeUser } : xmtp;
+  // Mirrors FastXMTPCard: an unreachable inbox hides the card, and with it the Social section.
+  const showXmtpCard = (xmtp as Partial<Pick<XmtpResult, 'canMessage'>> | null)?.canMessage !== false || Boolean(getServiceError('xmtp'));
+  // A name can point at any address; only the address's own primary name says it claims the name.
+  const reverseRecordWarning = (() => {
+    const ensData = (data?.services?.ens as any) ?? null;
+    if (!isEnsName(ensName) || !ensData || typeof ensData.verified !== 'boolean') return null;
+
+    let viewedName = ensName;
+    try {
+      viewedName = ens_normalize(ensName);
+    } catch {
+      // Keep the raw name; it simply won't match.
+    }
+    const reverseName = typeof ensData.reverseName === 'string' ? ensData.reverseName : null;
+    if (!reverseName) {
+      return { message: `${viewedName} resolves to this address, but the address has no verified primary name.`, primaryName: null };
+    }
+    if (reverseName !== viewedName) {
+      return { message: `${viewedName} resolves to this address, but its primary name is ${reverseName}.`, primaryName: reverseName };
+    }
+    return null;
+  })();
 
   // Only show loading when we have no data at all (not even cached data)
   const isInitialLoading = loading && !data;
@@ -269,11 +306,23 @@ export default function ProfilePage({ ensName, address, avatar }: ProfilePagePro
                 alt={`${ensName} avatar`}
                 width={150}
                 height={150}
+                unoptimized
                 style={{ borderRadius: '50%' }}
               />
             </Box>
           )}
           <Heading as="h1" size="2xl" color="gray.800" textAlign="center">{ensName}</Heading>
+          {reverseRecordWarning && (
+            <Box bg="orange.50" borderWidth="1px" borderColor="orange.300" borderRadius="md" p={3}>
+              <Text fontSize="sm" fontWeight="semibold" color="orange.800">⚠️ Unverified name</Text>
+              <Text fontSize="sm" color="orange.800">{reverseRecordWarning.message}</Text>
+              {reverseRecordWarning.primaryName && (
+                <Link href={`/${encodeURIComponent(reverseRecordWarning.primaryName)}`} fontSize="sm" color="blue.600">
+                  View {reverseRecordWarning.primaryName} →
+                </Link>
+              )}
+            </Box>
+          )}
           <Separator />
 
           <Box>
@@ -425,26 +474,33 @@ export default function ProfilePage({ ensName, address, avatar }: ProfilePagePro
               </Box>
 
               {/* Social */}
-              <Box>
-                <Heading as="h3" size="md" mb={4} color="gray.700" borderBottom="1px solid" borderColor="gray.200" pb={2}>
-                  Social
-                </Heading>
-                <SimpleGrid columns={{ base: 1, md: 2, lg: 3 }} gap={6}>
-                  <FastXMTPCard
-                    data={xmtpCardData}
-                    loading={false}
-                    lastUpdated={getServiceTimestamp('xmtp')}
-                    error={getServiceError('xmtp')}
-                    onRefresh={() => refreshService('xmtp')}
-                  />
-                </SimpleGrid>
-              </Box>
+              {showXmtpCard && (
+                <Box>
+                  <Heading as="h3" size="md" mb={4} color="gray.700" borderBottom="1px solid" borderColor="gray.200" pb={2}>
+                    Social
+                  </Heading>
+                  <SimpleGrid columns={{ base: 1, md: 2, lg: 3 }} gap={6}>
+                    <FastXMTPCard
+                      data={xmtpCardData}
+                      loading={false}
+                      lastUpdated={getServiceTimestamp('xmtp')}
+                      error={getServiceError('xmtp')}
+                      onRefresh={() => refreshService('xmtp')}
+                    />
+                  </SimpleGrid>
+                </Box>
+              )}
 
               {/* Assets */}
               <Box>
-                <Heading as="h3" size="md" mb={4} color="gray.700" borderBottom="1px solid" borderColor="gray.200" pb={2}>
-                  Assets
-                </Heading>
+                <HStack justify="space-between" align="baseline" mb={4} borderBottom="1px solid" borderColor="gray.200" pb={2}>
+                  <Heading as="h3" size="md" color="gray.700">
+                    Assets
+                  </Heading>
+                  <Link href={`/${ensName}/nfts`} color="blue.500" fontSize="sm">
+                    NFT gallery →
+                  </Link>
+                </HStack>
                 <SimpleGrid columns={{ base: 1, md: 2, lg: 3 }} gap={6}>
                   <FastAlchemyCard
                     data={alchemy}
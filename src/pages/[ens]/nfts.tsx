@@ -0,0 +1,334 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import {
+  Badge,
+  Box,
+  CloseButton,
+  Container,
+  Drawer,
+  Heading,
+  HStack,
+  Image,
+  Link,
+  NativeSelect,
+  Portal,
+  SimpleGrid,
+  Spinner,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+// Only used by getServerSideProps, so the inventory module stays out of the client bundle.
+import { ALCHEMY_NETWORKS, getAlchemyChains } from '../../lib/collectors/alchemyInventory';
+import type { AlchemyChain, ProcessedNFT } from '../../lib/collectors/alchemyInventory';
+
+interface NftGalleryProps {
+  ensName: string;
+  chains: Array<{ chain: AlchemyChain; label: string; currency: string; ordersByTransferTime: boolean }>;
+}
+
+// `inventory` keeps the order the networks were crawled in (and Alchemy's order within each).
+type SortOrder = 'acquired' | 'inventory' | 'floor';
+
+// The gallery loads whole inventories, so it asks for the largest pages `/api/nfts` serves.
+const PAGE_LIMIT = 100;
+
+export const getServerSideProps: GetServerSideProps<NftGalleryProps> = async (context) => {
+  context.res.setHeader('Cache-Control', 'public, s-maxage=60, stale-while-revalidate=300');
+  return {
+    props: {
+      ensName: context.params?.ens as string,
+      chains: getAlchemyChains().map((chain) => {
+        const { label, currency, ordersByTransferTime } = ALCHEMY_NETWORKS[chain];
+        return { chain, label, currency, ordersByTransferTime };
+      }),
+    },
+  };
+};
+
+const nftKey = (nft: ProcessedNFT) => `${nft.chain}:${nft.contractAddress}:${nft.tokenId}`;
+
+// Newest first. Only offered when every shown network reports transfer times.
+const acquiredTime = (nft: ProcessedNFT) => (nft.acquiredAt ? Date.parse(nft.acquiredAt) || 0 : 0);
+
+// Floors are only comparable within one currency: ETH floors sort first, then each other
+// currency's floors on their own, then NFTs without a floor. Ties keep the inventory order.
+function sortNfts(nfts: ProcessedNFT[], order: SortOrder, currencyOf: (chain: string) => string): ProcessedNFT[] {
+  const floorGroup = (nft: ProcessedNFT) => {
+    if (nft.floorPrice === null) return '2';
+    const currency = currencyOf(nft.chain);
+    return currency === 'ETH' ? '0' : `1:${currency}`;
+  };
+  if (order === 'inventory') return nfts;
+  return [...nfts].sort((a, b) => {
+    if (order === 'acquired') return acquiredTime(b) - acquiredTime(a);
+    const groupA = floorGroup(a);
+    const groupB = floorGroup(b);
+    if (groupA !== groupB) return groupA < groupB ? -1 : 1;
+    return (b.floorPrice ?? 0) - (a.floorPrice ?? 0);
+  });
+}
+
+const NftTile: React.FC<{ nft: ProcessedNFT; chainLabel: string | null; currency: string; onSelect: () => void }> = ({ nft, chainLabel, currency, onSelect }) => (
+  <Box
+    as="button"
+    onClick={onSelect}
+    textAlign="left"
+    borderWidth={1}
+    borderColor="gray.200"
+    borderRadius="lg"
+    overflow="hidden"
+    bg="white"
+    shadow="sm"
+    _hover={{ shadow: 'md' }}
+  >
+    <Box aspectRatio={1} bg="gray.100">
+      {nft.image && <Image src={nft.image} alt={nft.name} width="100%" height="100%" objectFit="cover" loading="lazy" />}
+    </Box>
+    <VStack align="stretch" gap={0} p={2}>
+      <Text fontSize="sm" fontWeight="semibold" color="gray.800" truncate>{nft.name}</Text>
+      <Text fontSize="xs" color="gray.600" truncate>{nft.collection}</Text>
+      <HStack justify="space-between" mt={1}>
+        {nft.floorPrice !== null ? (
+          <Text fontSize="xs" color="gray.700">Floor {nft.floorPrice.toFixed(3)} {currency}</Text>
+        ) : <span />}
+        {chainLabel && <Badge variant="subtle" fontSize="2xs">{chainLabel}</Badge>}
+      </HStack>
+    </VStack>
+  </Box>
+);
+
+export default function NftGalleryPage({ ensName, chains }: NftGalleryProps) {
+  const [nfts, setNfts] = useState<ProcessedNFT[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [chainFilter, setChainFilter] = useState<string>('all');
+  const [collectionFilter, setCollectionFilter] = useState<string>('all');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('acquired');
+  const [groupByCollection, setGroupByCollection] = useState(true);
+  const [selected, setSelected] = useState<ProcessedNFT | null>(null);
+
+  // Pages through every configured network; NFTs appear as each page arrives.
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadAll() {
+      setNfts([]);
+      setErrors([]);
+      setLoading(true);
+      for (const { chain, label } of chains) {
+        let cursor: string | null = null;
+        do {
+          const params = new URLSearchParams({ address: ensName, chain, limit: String(PAGE_LIMIT) });
+          if (cursor) params.set('cursor', cursor);
+          try {
+            const response = await fetch(`/api/nfts?${params}`);
+            const body = await response.json();
+            if (cancelled) return;
+            if (!response.ok) throw new Error(body.error || `Request failed (${response.status})`);
+            setNfts((previous) => [...previous, ...(body.nfts as ProcessedNFT[])]);
+            cursor = body.nextCursor as string | null;
+          } catch (error) {
+            if (cancelled) return;
+            const message = error instanceof Error ? error.message : String(error);
+            setErrors((previous) => [...previous, `${label}: ${message}`]);
+            cursor = null;
+          }
+        } while (cursor);
+      }
+      if (!cancelled) setLoading(false);
+    }
+
+    loadAll();
+    return () => {
+      cancelled = true;
+    };
+  }, [ensName, chains]);
+
+  const collections = useMemo(() => {
+    const byKey = new Map<string, { key: string; name: string; count: number }>();
+    for (const nft of nfts) {
+      if (chainFilter !== 'all' && nft.chain !== chainFilter) continue;
+      const key = `${nft.chain}:${nft.contractAddress}`;
+      const entry = byKey.get(key) ?? { key, name: nft.collection, count: 0 };
+      entry.count++;
+      byKey.set(key, entry);
+    }
+    return [...byKey.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  }, [nfts, chainFilter]);
+
+  const currencyOf = useCallback(
+    (chain: string) => chains.find((entry) => entry.chain === chain)?.currency ?? 'ETH',
+    [chains],
+  );
+
+  // Acquisition dates only exist on some networks; elsewhere the gallery offers the crawl order instead.
+  const canSortByAcquired = chains
+    .filter(({ chain }) => chainFilter === 'all' || chain === chainFilter)
+    .every(({ ordersByTransferTime }) => ordersByTransferTime);
+  const effectiveSortOrder: SortOrder = sortOrder === 'acquired' && !canSortByAcquired ? 'inventory' : sortOrder;
+
+  const visible = useMemo(() => sortNfts(
+    nfts.filter((nft) =>
+      (chainFilter === 'all' || nft.chain === chainFilter)
+      && (collectionFilter === 'all' || `${nft.chain}:${nft.contractAddress}` === collectionFilter)),
+    effectiveSortOrder,
+    currencyOf,
+  ), [nfts, chainFilter, collectionFilter, effectiveSortOrder, currencyOf]);
+
+  // Groups keep the sort order of their first NFT, so sorting by floor puts the priciest collections first.
+  const groups = useMemo(() => {
+    const byKey = new Map<string, { key: string; name: string; nfts: ProcessedNFT[] }>();
+    for (const nft of visible) {
+      const key = `${nft.chain}:${nft.contractAddress}`;
+      const group = byKey.get(key) ?? { key, name: nft.collection, nfts: [] };
+      group.nfts.push(nft);
+      byKey.set(key, group);
+    }
+    return [...byKey.values()];
+  }, [visible]);
+
+  const showChain = chains.length > 1;
+  const chainLabel = (chain: string) => chains.find((entry) => entry.chain === chain)?.label ?? chain;
+  const grid = (items: ProcessedNFT[]) => (
+    <SimpleGrid columns={{ base: 2, md: 4, lg: 6 }} gap={4}>
+      {items.map((nft) => (
+        <NftTile key={nftKey(nft)} nft={nft} chainLabel={showChain ? chainLabel(nft.chain) : null} currency={currencyOf(nft.chain)} onSelect={() => setSelected(nft)} />
+      ))}
+    </SimpleGrid>
+  );
+
+  return (
+    <>
+      <Head>
+        <title>{`${ensName} NFTs | Crypto.me Profile`}</title>
+      </Head>
+      <Container maxW="container.xl" py={8}>
+        <VStack gap={6} align="stretch">
+          <Box>
+            <Link href={`/${ensName}`} color="blue.500" fontSize="sm">← Back to {ensName}</Link>
+            <HStack gap={3} mt={2} align="baseline">
+              <Heading as="h1" size="xl">NFTs</Heading>
+              <Text color="gray.600">{visible.length} of {nfts.length}</Text>
+              {loading && <Spinner size="sm" />}
+            </HStack>
+          </Box>
+
+          <HStack gap={3} flexWrap="wrap">
+            {showChain && (
+              <NativeSelect.Root size="sm" width="160px">
+                <NativeSelect.Field
+                  aria-label="Chain"
+                  value={chainFilter}
+                  onChange={(event) => {
+                    setChainFilter(event.target.value);
+                    setCollectionFilter('all');
+                  }}
+                >
+                  <option value="all">All chains</option>
+                  {chains.map(({ chain, label }) => <option key={chain} value={chain}>{label}</option>)}
+                </NativeSelect.Field>
+                <NativeSelect.Indicator />
+              </NativeSelect.Root>
+            )}
+            <NativeSelect.Root size="sm" width="240px">
+              <NativeSelect.Field aria-label="Collection" value={collectionFilter} onChange={(event) => setCollectionFilter(event.target.value)}>
+                <option value="all">All collections ({collections.length})</option>
+                {collections.map(({ key, name, count }) => <option key={key} value={key}>{name} ({count})</option>)}
+              </NativeSelect.Field>
+              <NativeSelect.Indicator />
+            </NativeSelect.Root>
+            <NativeSelect.Root size="sm" width="200px">
+              <NativeSelect.Field aria-label="Sort" value={effectiveSortOrder} onChange={(event) => setSortOrder(event.target.value as SortOrder)}>
+                {canSortByAcquired
+                  ? <option value="acquired">Recently acquired</option>
+                  : <option value="inventory">By network</option>}
+                <option value="floor">Floor value</option>
+              </NativeSelect.Field>
+              <NativeSelect.Indicator />
+            </NativeSelect.Root>
+            <NativeSelect.Root size="sm" width="180px">
+              <NativeSelect.Field
+                aria-label="Layout"
+                value={groupByCollection ? 'grouped' : 'flat'}
+                onChange={(event) => setGroupByCollection(event.target.value === 'grouped')}
+              >
+                <option value="grouped">Group by collection</option>
+                <option value="flat">Show all</option>
+              </NativeSelect.Field>
+              <NativeSelect.Indicator />
+            </NativeSelect.Root>
+          </HStack>
+
+          {errors.map((message) => (
+            <Box key={message} p={3} bg="red.50" borderRadius="md" borderWidth={1} borderColor="red.200">
+              <Text fontSize="sm" color="red.700">{message}</Text>
+            </Box>
+          ))}
+
+          {!loading && nfts.length === 0 && errors.length === 0 && (
+            <Text color="gray.600">No NFTs found for {ensName}.</Text>
+          )}
+
+          {groupByCollection
+            ? groups.map((group) => (
+              <Box key={group.key}>
+                <HStack gap={2} mb={3}>
+                  <Heading as="h2" size="md" color="gray.700">{group.name}</Heading>
+                  <Badge variant="subtle">{group.nfts.length}</Badge>
+                </HStack>
+                {grid(group.nfts)}
+              </Box>
+            ))
+            : grid(visible)}
+        </VStack>
+      </Container>
+
+      <Drawer.Root open={selected !== null} onOpenChange={(details: { open: boolean }) => !details.open && setSelected(null)} size="md">
+        <Portal>
+          <Drawer.Backdrop />
+          <Drawer.Positioner>
+            <Drawer.Content>
+              {selected && (
+                <>
+                  <Drawer.Header>
+                    <Drawer.Title>{selected.name}</Drawer.Title>
+                  </Drawer.Header>
+                  <Drawer.Body>
+                    <VStack align="stretch" gap={4}>
+                      {selected.image && <Image src={selected.image} alt={selected.name} borderRadius="md" width="100%" />}
+                      <Box>
+                        <Text fontSize="sm" color="gray.600">{selected.collection}</Text>
+                        <Text fontSize="xs" color="gray.500" fontFamily="mono" wordBreak="break-all">
+                          {chainLabel(selected.chain)} · {selected.contractAddress} · #{selected.tokenId}
+                        </Text>
+                      </Box>
+                      {selected.floorPrice !== null && (
+                        <Text fontSize="sm" color="gray.700">Collection floor: {selected.floorPrice} {currencyOf(selected.chain)}</Text>
+                      )}
+                      {selected.description && <Text fontSize="sm" color="gray.700" whiteSpace="pre-wrap">{selected.description}</Text>}
+                      {selected.attributes && selected.attributes.length > 0 && (
+                        <Box>
+                          <Text fontSize="sm" fontWeight="semibold" color="gray.600" mb={2}>Traits</Text>
+                          <SimpleGrid columns={2} gap={2}>
+                            {selected.attributes.map((attribute, index) => (
+                              <Box key={`${attribute.trait_type}-${index}`} p={2} bg="gray.50" borderRadius="md">
+                                <Text fontSize="2xs" color="gray.500" textTransform="uppercase">{attribute.trait_type}</Text>
+                                <Text fontSize="sm" color="gray.800" truncate>{String(attribute.value)}</Text>
+                              </Box>
+                            ))}
+                          </SimpleGrid>
+                        </Box>
+                      )}
+                    </VStack>
+                  </Drawer.Body>
+                </>
+              )}
+              <CloseButton size="sm" position="absolute" top={3} right={3} onClick={() => setSelected(null)} />
+            </Drawer.Content>
+          </Drawer.Positioner>
+        </Portal>
+      </Drawer.Root>
+    </>
+  );
+}
@@ -0,0 +1,147 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { AddressResolutionError, parseProfileInput } from '../../../lib/addressResolver';
+import { AvatarResolver, avatarResolver, decodeDataUri } from '../../../lib/avatarResolver';
+import { toGatewayUrls } from '../../../lib/gateways';
+import { publicFetch } from '../../../lib/publicFetch';
+
+// `GET /api/avatar/<ens name>` serves the name's ENSIP-12 avatar as image bytes, so pages
+// can use one stable same-origin URL whatever the record points at. Responses are cached
+// by the CDN; gateways are tried in order until one returns an image. Avatar URLs are set by
+// whoever owns the name, so images are fetched through `publicFetch`, which refuses private hosts.
+
+const IMAGE_TIMEOUT_MS = 8000;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const IMAGE_CACHE_CONTROL = 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800';
+// Names without a usable avatar are re-checked sooner.
+const MISSING_CACHE_CONTROL = 'public, max-age=300, s-maxage=600';
+
+export interface AvatarRouteDependencies {
+  avatars: Pick<AvatarResolver, 'resolveAvatar'>;
+  fetchFn: typeof fetch;
+}
+
+const defaultDependencies: AvatarRouteDependencies = {
+  avatars: avatarResolver,
+  fetchFn: publicFetch,
+};
+
+export const config = {
+  api: {
+    responseLimit: false,
+  },
+};
+
+// Reads the body chunk by chunk and gives up as soon as it passes `maxBytes`, so a host that
+// omits `content-length` can't make us buffer an unbounded stream.
+async function readLimitedBody(response: Response, maxBytes: number): Promise<Buffer | null> {
+  if (!response.body) return Buffer.alloc(0);
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return Buffer.concat(chunks, size);
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      return null;
+    }
+    chunks.push(value);
+  }
+}
+
+async function fetchImage(url: string, fetchFn: typeof fetch): Promise<{ contentType: string; body: Buffer } | null> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), IMAGE_TIMEOUT_MS);
+  try {
+    const response = await fetchFn(url, { signal: controller.signal, headers: { Accept: 'image/*' } });
+    const contentType = response.headers.get('content-type')?.split(';')[0].trim().toLowerCase() ?? '';
+    if (!response.ok || !contentType.startsWith('image/')) {
+      console.warn(`[avatar] ${url} responded ${response.status} (${contentType || 'no content type'})`);
+      return null;
+    }
+    if (Number(response.headers.get('content-length') ?? 0) > MAX_IMAGE_BYTES) {
+      await response.body?.cancel().catch(() => undefined);
+      return null;
+    }
+    const body = await readLimitedBody(response, MAX_IMAGE_BYTES);
+    if (!body) console.warn(`[avatar] ${url} is larger than ${MAX_IMAGE_BYTES} bytes`);
+    return body ? { contentType, body } : null;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[avatar] Fetching ${url} failed: ${message}`);
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function sendImage(res: NextApiResponse, contentType: string, body: Buffer) {
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Length', body.length);
+  res.setHeader('Cache-Control', IMAGE_CACHE_CONTROL);
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  // SVG avatars are user-controlled markup; never let them run scripts on our origin.
+  res.setHeader('Content-Security-Policy', "default-src 'none'; style-src 'unsafe-inline'; sandbox");
+  return res.status(200).send(body);
+}
+
+export function createHandler(dependencies: AvatarRouteDependencies = defaultDependencies) {
+  return async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', ['GET']);
+      return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+    }
+
+    const { name: rawName } = req.query;
+    if (!rawName || typeof rawName !== 'string') {
+      return res.status(400).json({ error: 'ENS name is required' });
+    }
+
+    let name: string;
+    try {
+      const parsed = parseProfileInput(rawName);
+      if (parsed.kind !== 'name') {
+        return res.status(400).json({ error: 'Avatars are looked up by ENS name' });
+      }
+      name = parsed.name;
+    } catch (error) {
+      if (error instanceof AddressResolutionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      throw error;
+    }
+
+    let imageUri: string | null;
+    try {
+      imageUri = (await dependencies.avatars.resolveAvatar(name))?.imageUri ?? null;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[avatar] Resolving avatar for ${name} failed: ${message}`);
+      return res.status(502).json({ error: `Failed to resolve avatar for ${name}` });
+    }
+
+    if (!imageUri) {
+      res.setHeader('Cache-Control', MISSING_CACHE_CONTROL);
+      return res.status(404).json({ error: `${name} has no avatar` });
+    }
+
+    const data = decodeDataUri(imageUri);
+    if (data) {
+      if (!data.mimeType.startsWith('image/') || data.body.length > MAX_IMAGE_BYTES) {
+        res.setHeader('Cache-Control', MISSING_CACHE_CONTROL);
+        return res.status(404).json({ error: `${name} has no displayable avatar` });
+      }
+      return sendImage(res, data.mimeType, data.body);
+    }
+
+    for (const url of toGatewayUrls(imageUri)) {
+      const image = await fetchImage(url, dependencies.fetchFn);
+      if (image) return sendImage(res, image.contentType, image.body);
+    }
+
+    return res.status(502).json({ error: `Avatar image for ${name} is unavailable` });
+  };
+}
+
+export default createHandler();
@@ -0,0 +1,19 @@
+import { prisma } from '../../../../lib/prisma';
+import { BatchRouteDependencies, createBatchHandler } from '../../../lib/fastProfileBatch';
+import { resolveProfileAddress } from '../../../lib/profileAddress';
+import { getRefreshBudget } from '../../../lib/refreshBudget';
+import { buildRefreshRequests, enqueueSyncRequests } from '../../../lib/syncQueue';
+import { drainSyncQueue } from '../../../lib/syncWorker';
+
+const defaultDependencies: BatchRouteDependencies = {
+  resolveAddress: resolveProfileAddress,
+  findServiceRows: (addresses) => prisma.service_cache.findMany({ where: { address: { in: addresses } } }),
+  scheduleRefresh: async (refreshes, deadline) => {
+    const { concurrency, maxJobs } = getRefreshBudget();
+    await enqueueSyncRequests(refreshes.flatMap(({ address, servicesNeedingRefresh, expiredServices }) =>
+      buildRefreshRequests(address, servicesNeedingRefresh, expiredServices)));
+    return drainSyncQueue({ addresses: refreshes.map(({ address }) => address), maxJobs, concurrency, deadline });
+  },
+};
+
+export default createBatchHandler(defaultDependencies);
@@ -0,0 +1,137 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { prisma } from '../../../../lib/prisma';
+import { AddressResolutionError, ResolvedProfileAddress } from '../../../lib/addressResolver';
+import { RecentUpdateEvent, subscribeToUpdateEvents } from '../../../lib/cacheStore';
+import { buildFastProfileData, CachedServiceRow, diffServiceRows } from '../../../lib/fastProfileData';
+import { resolveProfileAddress } from '../../../lib/profileAddress';
+import { getRefreshBudget } from '../../../lib/refreshBudget';
+import { scheduleAddressRefresh } from '../../../lib/syncWorker';
+
+// Collectors usually run in this instance (triggered below or by /api/fast-profile), and their
+// events wake the stream immediately. Results written by other instances or the cron
+// worker are picked up by re-reading the cache on this interval.
+const CACHE_POLL_INTERVAL_MS = 5000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+// Tells EventSource how soon to reconnect after we end the response.
+const RECONNECT_DELAY_MS = 2000;
+// Close a little before the function's maxDuration so the platform doesn't cut us off mid-event.
+const STREAM_CLOSE_MARGIN_MS = 5000;
+
+export const config = {
+  api: {
+    responseLimit: false,
+  },
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { address } = req.query;
+  const startTime = Date.now();
+
+  if (!address || typeof address !== 'string') {
+    return res.status(400).json({ error: 'Address is required' });
+  }
+
+  let resolved: ResolvedProfileAddress;
+  try {
+    resolved = await resolveProfileAddress(address);
+  } catch (error) {
+    if (error instanceof AddressResolutionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    throw error;
+  }
+
+  const normalizedAddress = resolved.address;
+
+  let initialRows: CachedServiceRow[];
+  try {
+    initialRows = await prisma.service_cache.findMany({ where: { address: normalizedAddress } });
+  } catch (error) {
+    const errorInstance = error instanceof Error ? error : new Error(String(error));
+    console.error(`[fast-profile:stream:${normalizedAddress}] Failed to read service_cache: ${errorInstance.message}`, errorInstance);
+    return res.status(500).json({ error: `Failed to retrieve profile: ${errorInstance.message}` });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const { profile, servicesNeedingRefresh, expiredServices } = buildFastProfileData(normalizedAddress, initialRows, startTime);
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+  send('snapshot', { ...profile, ensName: resolved.ensName });
+
+  if (servicesNeedingRefresh.length > 0) {
+    // Same refresh as /api/fast-profile, so a stream consumer doesn't need to poll first.
+    // The open response keeps the function alive while the drain runs.
+    void scheduleAddressRefresh(normalizedAddress, servicesNeedingRefresh, expiredServices, startTime);
+  }
+
+  const seenVersions = new Map<string, string>();
+  diffServiceRows(seenVersions, initialRows);
+
+  let closed = false;
+  let checking = false;
+  let recheck = false;
+
+  const checkForChanges = async () => {
+    if (closed) return;
+    if (checking) {
+      recheck = true;
+      return;
+    }
+    checking = true;
+    try {
+      do {
+        recheck = false;
+        const rows: CachedServiceRow[] = await prisma.service_cache.findMany({ where: { address: normalizedAddress } });
+        if (closed) return;
+        for (const event of diffServiceRows(seenVersions, rows)) {
+          send(event.type, event.payload);
+        }
+      } while (recheck && !closed);
+    } catch (error) {
+      console.error(`[fast-profile:stream:${normalizedAddress}] Failed to check for updates:`, error);
+    } finally {
+      checking = false;
+    }
+  };
+
+  const unsubscribe = subscribeToUpdateEvents((event: RecentUpdateEvent) => {
+    if (event.address !== normalizedAddress) return;
+    if (event.status === 'service_updated' || event.status === 'service_failed') {
+      void checkForChanges();
+    }
+  });
+  const pollTimer = setInterval(() => void checkForChanges(), CACHE_POLL_INTERVAL_MS);
+  const heartbeatTimer = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  const { maxDurationMs } = getRefreshBudget();
+  const closeTimer = setTimeout(() => {
+    send('end', { reason: 'timeout' });
+    close();
+  }, Math.max(maxDurationMs - STREAM_CLOSE_MARGIN_MS, HEARTBEAT_INTERVAL_MS));
+
+  function close() {
+    if (closed) return;
+    closed = true;
+    unsubscribe();
+    clearInterval(pollTimer);
+    clearInterval(heartbeatTimer);
+    clearTimeout(closeTimer);
+    res.end();
+  }
+
+  req.on('close', close);
+}
@@ -1,9 +1,14 @@
 import { NextApiRequest, NextApiResponse } from 'next';
+import { mainnetRpcHealth } from '../../lib/rpc';
 
 export default function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  res.status(200).json({ status: 'healthy' });
+  // Per-instance view: latency and error rate of the RPC endpoints this instance has used.
+  const rpc = mainnetRpcHealth.getHealth();
+  const allBenched = rpc.length > 0 && rpc.every((endpoint) => endpoint.coolingDownUntil !== null);
+
+  res.status(200).json({ status: allBenched ? 'degraded' : 'healthy', rpc });
 }
@@ -0,0 +1,85 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import {
+  alchemyInventory,
+  AlchemyInventoryError,
+  AlchemyInventoryStore,
+  getAlchemyChains,
+  isAlchemyChain,
+} from '../../lib/collectors/alchemyInventory';
+import { CollectorError, resolveCollectorAddress } from '../../lib/collectors/shared';
+import { EnsResolver, ensResolver } from '../../lib/ensResolver';
+
+// `GET /api/nfts?address=<address or ENS name>&chain=<chain>&cursor=<cursor>[&limit=<n>]`
+// pages through the cached Alchemy inventory for one network. `cursor` is the `nextCursor`
+// of the previous page; it is null once the inventory is exhausted.
+
+const DEFAULT_LIMIT = 24;
+const MAX_LIMIT = 100;
+
+export interface NftRouteDependencies {
+  ens: Pick<EnsResolver, 'resolveName'>;
+  inventory: AlchemyInventoryStore;
+}
+
+const defaultDependencies: NftRouteDependencies = {
+  ens: ensResolver,
+  inventory: alchemyInventory,
+};
+
+export function createHandler(dependencies: NftRouteDependencies = defaultDependencies) {
+  return async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', ['GET']);
+      return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+    }
+
+    const { address, chain: rawChain, cursor: rawCursor, limit: rawLimit } = req.query;
+    if (!address || typeof address !== 'string') {
+      return res.status(400).json({ error: 'Address is required' });
+    }
+
+    // Only networks the operator enabled in `ALCHEMY_NFT_CHAINS`; each one is a paid crawl.
+    const chains = getAlchemyChains();
+    const chain = typeof rawChain === 'string' && rawChain ? rawChain.toLowerCase() : chains[0];
+    if (!isAlchemyChain(chain) || !chains.includes(chain)) {
+      return res.status(400).json({ error: `Unsupported chain "${chain}"` });
+    }
+
+    const offset = rawCursor === undefined || rawCursor === '' ? 0 : Number(rawCursor);
+    const limit = rawLimit === undefined ? DEFAULT_LIMIT : Number(rawLimit);
+    if (!Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return res.status(400).json({ error: `limit must be between 1 and ${MAX_LIMIT}` });
+    }
+
+    try {
+      const resolvedAddress = await resolveCollectorAddress(address, dependencies.ens);
+      const { data, fetchedAt, stale } = await dependencies.inventory.getInventory(resolvedAddress, chain);
+      const nextOffset = offset + limit;
+
+      return res.status(200).json({
+        address: data.address,
+        chain,
+        totalCount: data.totalCount,
+        complete: data.complete,
+        nfts: data.nfts.slice(offset, nextOffset),
+        nextCursor: nextOffset < data.nfts.length ? String(nextOffset) : null,
+        fetchedAt,
+        stale,
+      });
+    } catch (error) {
+      if (error instanceof CollectorError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      if (error instanceof AlchemyInventoryError) {
+        return res.status(error.code === 'NO_API_KEY' ? 500 : 502).json({ error: error.message, code: error.code });
+      }
+      console.error(`[nfts:${chain}] Failed to load inventory for ${address}:`, error);
+      return res.status(502).json({ error: 'Failed to load NFTs' });
+    }
+  };
+}
+
+export default createHandler();
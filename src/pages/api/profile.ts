@@ -1,13 +1,8 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { prisma } from '../../../lib/prisma';
-import { createEnsPublicClient } from '@ensdomains/ensjs';
-import { http } from 'viem';
-import { mainnet } from 'viem/chains';
-
-const ensClient = createEnsPublicClient({
-  chain: mainnet,
-  transport: http('https://eth.llamarpc.com'),
-});
+import { AddressResolutionError, parseProfileInput } from '../../lib/addressResolver';
+import { ensResolver } from '../../lib/ensResolver';
+import { createEtag, sendJsonWithEtag } from '../../lib/etag';
 
 const PROFILE_TTL_MS = 24 * 60 * 60 * 1000; // 24h
 
@@ -17,8 +12,8 @@ function isProfileStale(profile: { next_sync_due: Date | null; updated_at: Date
 }
 
 async function refreshEnsProfile(ens_name: string): Promise<void> {
-  const addressRecord = await ensClient.getAddressRecord({ name: ens_name });
-  if (!addressRecord?.value || addressRecord.value === '0x0000000000000000000000000000000000000000') {
+  const address = await ensResolver.resolveName(ens_name);
+  if (!address) {
     await prisma.cached_profiles
       .delete({
         where: { ens_name },
@@ -27,12 +22,11 @@ async function refreshEnsProfile(ens_name: string): Promise<void> {
     return;
   }
 
-  const avatarRecord = await ensClient.getTextRecord({ name: ens_name, key: 'avatar' });
-  const avatar = typeof avatarRecord === 'string' ? avatarRecord : null;
+  const avatar = await ensResolver.getText(ens_name, 'avatar');
 
   const profileData = {
     ens_name,
-    address: addressRecord.value,
+    address,
     profile_data: {
       ens_avatar: avatar,
     },
@@ -60,16 +54,31 @@ async function refreshEnsProfile(ens_name: string): Promise<void> {
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const { ens_name, refresh } = req.query;
+  const { ens_name: rawEnsName, refresh } = req.query;
 
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  if (!ens_name || typeof ens_name !== 'string') {
+  if (!rawEnsName || typeof rawEnsName !== 'string') {
     return res.status(400).json({ error: 'Invalid ENS name' });
   }
 
+  // `Vitalik.eth` and `vitalik.eth` share one cached row.
+  let ens_name: string;
+  try {
+    const parsed = parseProfileInput(rawEnsName);
+    if (parsed.kind !== 'name') {
+      return res.status(400).json({ error: 'Invalid ENS name' });
+    }
+    ens_name = parsed.name;
+  } catch (error) {
+    if (error instanceof AddressResolutionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    throw error;
+  }
+
   try {
     const profile = await prisma.cached_profiles.findUnique({
       where: { ens_name },
@@ -80,7 +89,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     if (profile && !refreshRequested && !stale) {
       const parsedProfileData = JSON.parse(profile.profile_data ?? '{}');
-      return res.status(200).json({
+      return sendJsonWithEtag(req, res, createEtag(ens_name, profile.updated_at.getTime()), {
         ...parsedProfileData,
         last_sync_status: profile.last_sync_status ?? 'Unknown',
       });
@@ -97,7 +106,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       });
 
       const parsedProfileData = JSON.parse(profile.profile_data ?? '{}');
-      return res.status(200).json({
+      return sendJsonWithEtag(req, res, createEtag(ens_name, profile.updated_at.getTime(), 'stale'), {
         ...parsedProfileData,
         last_sync_status: profile.last_sync_status ?? 'Unknown',
         stale: true,
@@ -116,7 +125,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     const parsedProfileData = JSON.parse(updatedProfile.profile_data ?? '{}');
-    return res.status(200).json({
+    return sendJsonWithEtag(req, res, createEtag(ens_name, updatedProfile.updated_at.getTime()), {
       ...parsedProfileData,
       last_sync_status: updatedProfile.last_sync_status ?? 'Unknown',
     });
@@ -5,10 +5,15 @@ import {
   // CacheEntry, // Removed unused import
   RecentUpdateEvent
 } from '../../lib/cacheStore';
+import { CircuitBreakerStatus, getCircuitBreakerStatuses } from '../../lib/circuitBreaker';
+import { getSyncQueueStats } from '../../lib/syncQueue';
 
 interface QueueStatus {
   currentlyFetching: { address: string; startTime?: number }[]; // startTime might be hard to get accurately without more changes
   recentUpdates: RecentUpdateEvent[];
+  syncQueue: { pending: number; processing: number } | null; // null if the database is unreachable
+  circuitBreakers: CircuitBreakerStatus[]; // Providers this instance has recorded failures for
+  openCircuitBreakers: CircuitBreakerStatus['provider'][];
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse<QueueStatus | { error: string }>) {
@@ -34,9 +39,20 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
 
     const updatesToShow = recentUpdatesLog.slice(0, 10); // Show 10 most recent
 
+    // Durable queue depth across all instances (globalFetchLock only covers this one).
+    const syncQueue = await getSyncQueueStats().catch((error) => {
+      console.error('Error reading sync_queue stats:', error);
+      return null;
+    });
+
+    const circuitBreakers = getCircuitBreakerStatuses();
+
     res.status(200).json({
       currentlyFetching,
       recentUpdates: updatesToShow,
+      syncQueue,
+      circuitBreakers,
+      openCircuitBreakers: circuitBreakers.filter((breaker) => breaker.state === 'open').map((breaker) => breaker.provider),
     });
 
   } catch (error) {
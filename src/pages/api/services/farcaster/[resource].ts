@@ -0,0 +1,51 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import {
+  createFarcasterResources,
+  defaultFarcasterResourceDependencies,
+  FARCASTER_RESOURCES,
+  FarcasterResource,
+  FarcasterResourceDependencies,
+} from '../../../../lib/collectors/farcasterResources';
+import { CollectorError } from '../../../../lib/collectors/shared';
+
+// `GET /api/services/farcaster/<casts|channels|mutuals>?fid=<fid>[&viewer=<address or ENS name>]`
+// Responds `{ resource, data, fetchedAt, expiresAt, stale }`.
+export function createHandler(dependencies: FarcasterResourceDependencies = defaultFarcasterResourceDependencies) {
+  const resources = createFarcasterResources(dependencies);
+
+  return async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', ['GET']);
+      return res.status(405).end(`Method ${req.method} Not Allowed`);
+    }
+
+    const { resource, fid: rawFid, viewer } = req.query;
+    if (typeof resource !== 'string' || !FARCASTER_RESOURCES.includes(resource as FarcasterResource)) {
+      return res.status(404).json({ error: `Unknown Farcaster resource. Expected one of: ${FARCASTER_RESOURCES.join(', ')}` });
+    }
+
+    const fid = Number(rawFid);
+    if (typeof rawFid !== 'string' || !Number.isInteger(fid) || fid <= 0) {
+      return res.status(400).json({ error: 'A numeric fid is required' });
+    }
+    if (resource === 'mutuals' && (typeof viewer !== 'string' || !viewer)) {
+      return res.status(400).json({ error: 'viewer (address or ENS name) is required for mutuals' });
+    }
+
+    try {
+      const result =
+        resource === 'casts' ? await resources.getCasts(fid)
+          : resource === 'channels' ? await resources.getChannels(fid)
+            : await resources.getMutuals(fid, viewer as string);
+      return res.status(200).json({ resource, ...result });
+    } catch (error) {
+      if (error instanceof CollectorError) {
+        return res.status(error.status).json(error.body ?? { error: error.message });
+      }
+      console.error(`[farcaster:${resource}:${fid}] Failed to load:`, error);
+      return res.status(502).json({ error: `Failed to load Farcaster ${resource}` });
+    }
+  };
+}
+
+export default createHandler();
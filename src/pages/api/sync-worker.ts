@@ -0,0 +1,50 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getRefreshBudget } from '../../lib/refreshBudget';
+import { getSyncQueueStats } from '../../lib/syncQueue';
+import { drainSyncQueue, DrainResult } from '../../lib/syncWorker';
+
+// Jobs taken per invocation; the rest stay queued for the next run. The time budget
+// from getRefreshBudget() usually ends a busy run before this does.
+const MAX_JOBS_PER_RUN = 50;
+
+interface SyncWorkerResponse extends DrainResult {
+  remaining: { pending: number; processing: number };
+}
+
+// Vercel Cron sends `Authorization: Bearer $CRON_SECRET` when the secret is configured.
+function isAuthorized(req: NextApiRequest, secret: string): boolean {
+  return req.headers.authorization === `Bearer ${secret}`;
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<SyncWorkerResponse | { error: string }>) {
+  const startTime = Date.now();
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  // Without a secret anyone could drain the queue and spend upstream quota, so an
+  // unconfigured deployment refuses to run; only `next dev` skips the check.
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV !== 'development') {
+      console.error('[sync-worker] CRON_SECRET is not set; refusing to drain the sync queue');
+      return res.status(503).json({ error: 'Sync worker is not configured' });
+    }
+  } else if (!isAuthorized(req, secret)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { concurrency, budgetMs } = getRefreshBudget();
+    const result = await drainSyncQueue({ maxJobs: MAX_JOBS_PER_RUN, concurrency, deadline: startTime + budgetMs });
+    const remaining = await getSyncQueueStats();
+    console.log(`[sync-worker] Processed ${result.processed}, failed ${result.failed}, pending ${remaining.pending}`);
+
+    return res.status(200).json({ ...result, remaining });
+  } catch (error) {
+    console.error('Error in /api/sync-worker:', error);
+    return res.status(500).json({ error: 'Failed to drain sync queue' });
+  }
+}
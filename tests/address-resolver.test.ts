@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { AddressResolutionError, createAddressResolver, parseProfileInput, toAddressKey } from '../src/lib/addressResolver';
+
+const checksummed = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+
+function isResolutionError(status: number) {
+  return (error: unknown) => error instanceof AddressResolutionError && error.status === status;
+}
+
+describe('parseProfileInput', () => {
+  it('checksums lower-case addresses and accepts valid checksums', () => {
+    assert.deepEqual(parseProfileInput(checksummed.toLowerCase()), { kind: 'address', address: checksummed });
+    assert.deepEqual(parseProfileInput(checksummed), { kind: 'address', address: checksummed });
+    assert.equal(toAddressKey(checksummed.toLowerCase()), checksummed);
+  });
+
+  it('rejects a mixed-case address with a bad checksum', () => {
+    assert.throws(() => parseProfileInput('0xD8dA6BF26964aF9D7eEd9e03E53415D37aA96045'), isResolutionError(400));
+  });
+
+  it('normalizes ENS names', () => {
+    assert.deepEqual(parseProfileInput(' Vitalik.ETH '), { kind: 'name', name: 'vitalik.eth' });
+    assert.throws(() => parseProfileInput('bad..eth'), isResolutionError(400));
+    assert.throws(() => parseProfileInput('vitalik'), isResolutionError(400));
+  });
+});
+
+describe('createAddressResolver', () => {
+  it('resolves every spelling of a name to the checksummed address', async () => {
+    const names: string[] = [];
+    const resolve = createAddressResolver({
+      ens: {
+        resolveName: async (name) => {
+          names.push(name);
+          return checksummed;
+        },
+      },
+    });
+
+    assert.deepEqual(await resolve('Vitalik.eth'), { address: checksummed, ensName: 'vitalik.eth' });
+    assert.deepEqual(await resolve(checksummed.toLowerCase()), { address: checksummed, ensName: null });
+    assert.deepEqual(names, ['vitalik.eth']);
+  });
+
+  it('maps missing names to 404 and lookup failures to 502', async () => {
+    const missing = createAddressResolver({ ens: { resolveName: async () => null } });
+    await assert.rejects(missing('unregistered-name.eth'), isResolutionError(404));
+
+    const failing = createAddressResolver({
+      ens: {
+        resolveName: async () => {
+          throw new Error('rpc down');
+        },
+      },
+    });
+    await assert.rejects(failing('nick.eth'), isResolutionError(502));
+  });
+});
@@ -0,0 +1,230 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createMocks } from 'node-mocks-http';
+
+import { AvatarNftClient, createAvatarResolver, decodeDataUri, parseAvatarRecord } from '../src/lib/avatarResolver';
+import { getGatewayConfig, toGatewayUrls } from '../src/lib/gateways';
+import { createPublicFetch, isReservedAddress, UnsafeUrlError } from '../src/lib/publicFetch';
+import { createHandler as createAvatarHandler } from '../src/pages/api/avatar/[name]';
+
+const owner = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const contract = '0xb47e3cd837dDF8e4c57F05d70Ab865de6e193BBB';
+const cid = 'bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi';
+const gateways = { ipfs: ['https://gw-a.example', 'https://gw-b.example'], arweave: ['https://ar.example'] };
+
+function createEns(avatar: string | null) {
+  return {
+    getText: async () => avatar,
+    resolveName: async () => owner,
+  };
+}
+
+function createClient(results: Record<string, unknown>) {
+  const calls: Array<{ functionName: string; args: readonly unknown[] }> = [];
+  const client = {
+    readContract: async ({ functionName, args }: { functionName: string; args: readonly unknown[] }) => {
+      calls.push({ functionName, args });
+      return results[functionName];
+    },
+  } as unknown as AvatarNftClient;
+  return { calls, client };
+}
+
+function jsonResponse(body: unknown) {
+  return new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json' } });
+}
+
+describe('gateways', () => {
+  it('maps storage URIs onto every configured gateway', () => {
+    assert.deepEqual(toGatewayUrls(`ipfs://ipfs/${cid}/1.png`, gateways), [
+      `https://gw-a.example/ipfs/${cid}/1.png`,
+      `https://gw-b.example/ipfs/${cid}/1.png`,
+    ]);
+    assert.deepEqual(toGatewayUrls('ar://tx123', gateways), ['https://ar.example/tx123']);
+    assert.deepEqual(toGatewayUrls(`https://dead.example/ipfs/${cid}`, gateways), [
+      `https://dead.example/ipfs/${cid}`,
+      `https://gw-a.example/ipfs/${cid}`,
+      `https://gw-b.example/ipfs/${cid}`,
+    ]);
+    assert.deepEqual(toGatewayUrls(cid, gateways), [`https://gw-a.example/ipfs/${cid}`, `https://gw-b.example/ipfs/${cid}`]);
+    assert.deepEqual(toGatewayUrls('ftp://example.com/a.png', gateways), []);
+    assert.deepEqual(getGatewayConfig({ IPFS_GATEWAY_URLS: 'https://one.example/, https://two.example' }).ipfs, [
+      'https://one.example',
+      'https://two.example',
+    ]);
+  });
+});
+
+describe('parseAvatarRecord', () => {
+  it('recognizes ENSIP-12 NFT references and URIs', () => {
+    assert.deepEqual(parseAvatarRecord(`eip155:1/erc721:${contract.toLowerCase()}/42`), {
+      kind: 'erc721',
+      chainId: 1,
+      contract,
+      tokenId: BigInt(42),
+    });
+    assert.equal(parseAvatarRecord('data:image/png;base64,AAAA')?.kind, 'uri');
+    assert.equal(parseAvatarRecord('not an avatar'), null);
+  });
+
+  it('decodes base64 and percent-encoded data URIs', () => {
+    assert.equal(decodeDataUri('data:application/json;base64,eyJhIjoxfQ==')?.body.toString(), '{"a":1}');
+    assert.deepEqual(decodeDataUri('data:image/svg+xml,%3Csvg%2F%3E')?.body.toString(), '<svg/>');
+  });
+});
+
+describe('createAvatarResolver', () => {
+  it('resolves an ERC-721 avatar held by the name owner through its metadata', async () => {
+    const { client } = createClient({ ownerOf: owner.toLowerCase(), tokenURI: `ipfs://${cid}/42` });
+    const fetched: string[] = [];
+    const resolver = createAvatarResolver({
+      ens: createEns(`eip155:1/erc721:${contract}/42`),
+      client,
+      fetchFn: (async (url: string) => {
+        fetched.push(url);
+        return jsonResponse({ image: 'ar://image-tx' });
+      }) as typeof fetch,
+    });
+
+    const avatar = await resolver.resolveAvatar('demo.eth');
+
+    assert.equal(avatar?.kind, 'erc721');
+    assert.equal(avatar?.imageUri, 'ar://image-tx');
+    assert.equal(avatar?.url, 'https://arweave.net/image-tx');
+    assert.deepEqual(fetched, [`https://ipfs.io/ipfs/${cid}/42`]);
+  });
+
+  it('ignores NFT avatars the name owner does not hold', async () => {
+    const { client } = createClient({ ownerOf: '0x0000000000000000000000000000000000000001', tokenURI: 'https://example.com/42' });
+    const resolver = createAvatarResolver({
+      ens: createEns(`eip155:1/erc721:${contract}/42`),
+      client,
+      fetchFn: (async () => jsonResponse({ image: 'https://example.com/42.png' })) as typeof fetch,
+    });
+
+    assert.equal(await resolver.resolveAvatar('demo.eth'), null);
+  });
+
+  it('substitutes the hex token id into ERC-1155 URIs and reads inline metadata', async () => {
+    const metadata = Buffer.from(JSON.stringify({ image_data: '<svg/>' })).toString('base64');
+    const { calls, client } = createClient({ balanceOf: BigInt(1), uri: `data:application/json;base64,${metadata}` });
+    const resolver = createAvatarResolver({
+      ens: createEns(`eip155:1/erc1155:${contract}/255`),
+      client,
+      fetchFn: (async () => {
+        throw new Error('unexpected fetch');
+      }) as typeof fetch,
+    });
+
+    const avatar = await resolver.resolveAvatar('demo.eth');
+
+    assert.equal(avatar?.kind, 'erc1155');
+    assert.equal(avatar?.url, `data:image/svg+xml;base64,${Buffer.from('<svg/>').toString('base64')}`);
+    assert.deepEqual(calls.find(({ functionName }) => functionName === 'balanceOf')?.args, [owner, BigInt(255)]);
+  });
+});
+
+describe('avatar proxy route', () => {
+  it('falls back to the next gateway and serves the image bytes', async () => {
+    const fetched: string[] = [];
+    const handler = createAvatarHandler({
+      avatars: {
+        resolveAvatar: async () => ({ record: `ipfs://${cid}`, kind: 'uri', imageUri: `ipfs://${cid}`, url: `https://ipfs.io/ipfs/${cid}` }),
+      },
+      fetchFn: (async (url: string) => {
+        fetched.push(url);
+        if (fetched.length === 1) return new Response('busy', { status: 429 });
+        return new Response(new Uint8Array([1, 2, 3]), { status: 200, headers: { 'content-type': 'image/png' } });
+      }) as typeof fetch,
+    });
+    const { req, res } = createMocks({ method: 'GET', query: { name: 'Demo.eth' } });
+
+    await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+
+    assert.equal(res._getStatusCode(), 200);
+    assert.equal(res.getHeader('content-type'), 'image/png');
+    assert.match(String(res.getHeader('cache-control')), /s-maxage=86400/);
+    assert.deepEqual([...(res._getData() as Buffer)], [1, 2, 3]);
+    assert.equal(fetched.length, 2);
+  });
+
+  it('stops reading an image body without a length once it passes the size limit', async () => {
+    const chunk = new Uint8Array(1024 * 1024);
+    let pulled = 0;
+    let cancelled = false;
+    const handler = createAvatarHandler({
+      avatars: {
+        resolveAvatar: async () => ({ record: 'https://img.example/a.png', kind: 'uri', imageUri: 'https://img.example/a.png', url: 'https://img.example/a.png' }),
+      },
+      fetchFn: (async () => {
+        // An endless body with no content-length header.
+        const body = new ReadableStream<Uint8Array>({
+          pull: (controller) => {
+            pulled += 1;
+            controller.enqueue(chunk);
+          },
+          cancel: () => {
+            cancelled = true;
+          },
+        });
+        return new Response(body, { status: 200, headers: { 'content-type': 'image/png' } });
+      }) as typeof fetch,
+    });
+    const { req, res } = createMocks({ method: 'GET', query: { name: 'demo.eth' } });
+
+    await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+
+    assert.equal(res._getStatusCode(), 502);
+    assert.equal(cancelled, true);
+    assert.ok(pulled <= 8, `read ${pulled} chunks`);
+  });
+
+  it('returns 404 for names without an avatar', async () => {
+    const handler = createAvatarHandler({ avatars: { resolveAvatar: async () => null }, fetchFn: fetch });
+    const { req, res } = createMocks({ method: 'GET', query: { name: 'demo.eth' } });
+
+    await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+
+    assert.equal(res._getStatusCode(), 404);
+  });
+});
+
+describe('publicFetch', () => {
+  const lookup = async (hostname: string) => ({
+    'images.example': ['93.184.216.34'],
+    'internal.example': ['93.184.216.35', '10.0.0.5'],
+  } as Record<string, string[]>)[hostname] ?? [];
+
+  it('recognizes private, loopback, link-local and mapped addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe']) {
+      assert.equal(isReservedAddress(address), true, address);
+    }
+    for (const address of ['93.184.216.34', '2606:4700::6810:85e5', '::ffff:93.184.216.34']) {
+      assert.equal(isReservedAddress(address), false, address);
+    }
+  });
+
+  it('refuses hosts resolving to private addresses and checks every redirect', async () => {
+    const fetched: string[] = [];
+    const safeFetch = createPublicFetch({
+      lookup,
+      fetchFn: (async (url: string, init?: RequestInit) => {
+        fetched.push(url);
+        assert.equal(init?.redirect, 'manual');
+        if (url.endsWith('/moved')) return new Response(null, { status: 302, headers: { location: '/avatar.png' } });
+        if (url.endsWith('/metadata')) return new Response(null, { status: 301, headers: { location: 'http://169.254.169.254/latest/meta-data' } });
+        return new Response('ok', { status: 200 });
+      }) as typeof fetch,
+    });
+
+    assert.equal((await safeFetch('https://images.example/moved')).status, 200);
+    assert.deepEqual(fetched, ['https://images.example/moved', 'https://images.example/avatar.png']);
+
+    await assert.rejects(() => safeFetch('https://images.example/metadata'), UnsafeUrlError);
+    await assert.rejects(() => safeFetch('https://internal.example/avatar.png'), UnsafeUrlError);
+    await assert.rejects(() => safeFetch('http://[::1]:3000/'), UnsafeUrlError);
+    await assert.rejects(() => safeFetch('file:///etc/passwd'), UnsafeUrlError);
+    assert.equal(fetched.length, 3);
+  });
+});
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { addRecentUpdateEvent, getServiceConfig, getServiceFreshness, RecentUpdateEvent, subscribeToUpdateEvents } from '../src/lib/cacheStore';
+
+describe('Service freshness policy', () => {
+  const now = new Date('2025-01-01T12:00:00Z');
+
+  it('treats entries before expires_at as fresh', () => {
+    const ens = getServiceConfig('ens')!;
+    assert.equal(getServiceFreshness(ens, new Date(now.getTime() + 1000), now), 'fresh');
+  });
+
+  it('serves entries inside the stale window as stale', () => {
+    const ens = getServiceConfig('ens')!;
+    const expiresAt = new Date(now.getTime() - ens.staleServeMs + 1000);
+    assert.equal(getServiceFreshness(ens, expiresAt, now), 'stale');
+  });
+
+  it('marks entries past the stale window or without expiry as expired', () => {
+    const debank = getServiceConfig('debank')!;
+    const expiresAt = new Date(now.getTime() - debank.staleServeMs - 1000);
+    assert.equal(getServiceFreshness(debank, expiresAt, now), 'expired');
+    assert.equal(getServiceFreshness(debank, null, now), 'expired');
+  });
+
+  it('gives price-driven services a shorter TTL than identity services', () => {
+    assert.ok(getServiceConfig('debank')!.successTtlMs < getServiceConfig('ens')!.successTtlMs);
+    assert.ok(getServiceConfig('zerion')!.successTtlMs < getServiceConfig('ens')!.successTtlMs);
+  });
+});
+
+describe('Update event subscriptions', () => {
+  it('notifies listeners until they unsubscribe', () => {
+    const received: RecentUpdateEvent[] = [];
+    const unsubscribe = subscribeToUpdateEvents((event) => received.push(event));
+
+    addRecentUpdateEvent({ address: '0xabc', status: 'service_updated', serviceName: 'ens' });
+    unsubscribe();
+    addRecentUpdateEvent({ address: '0xabc', status: 'service_updated', serviceName: 'farcaster' });
+
+    assert.equal(received.length, 1);
+    assert.equal(received[0].serviceName, 'ens');
+  });
+});
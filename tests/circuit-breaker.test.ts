@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict';
+import { describe, it, beforeEach } from 'node:test';
+
+import {
+  CircuitOpenError,
+  getCircuitState,
+  recordUpstreamResult,
+  resetCircuitBreakers,
+  withCircuitBreaker,
+  withUpstreamAddress,
+} from '../src/lib/circuitBreaker';
+import { getErrorBackoffMs, getServiceConfig } from '../src/lib/cacheStore';
+
+function statusResponse(status: number): Response {
+  return new Response('{}', { status, headers: { 'content-type': 'application/json' } });
+}
+
+describe('Upstream circuit breaker', () => {
+  beforeEach(() => {
+    resetCircuitBreakers();
+  });
+
+  it('opens after repeated rate-limit responses and fails fast', async () => {
+    let calls = 0;
+    const fetchFn = withCircuitBreaker('debank', async () => {
+      calls += 1;
+      return statusResponse(429);
+    });
+
+    for (let i = 0; i < 5; i += 1) {
+      await fetchFn(`https://openapi.debank.com/v1/user/total_balance?id=0x${i}`);
+    }
+    assert.equal(getCircuitState('debank'), 'open');
+
+    await assert.rejects(() => fetchFn('https://openapi.debank.com/v1/user/token_list?id=0x9'), CircuitOpenError);
+    assert.equal(calls, 5);
+  });
+
+  it('stays closed while failures come from a single address', async () => {
+    let calls = 0;
+    const fetchFn = withCircuitBreaker('alchemy', async () => {
+      calls += 1;
+      return statusResponse(500);
+    });
+
+    for (let i = 0; i < 20; i += 1) {
+      await withUpstreamAddress('broken.eth', () => fetchFn(`https://eth-mainnet.g.alchemy.com/nft/v3/key/getNFTsForOwner?page=${i}`));
+    }
+    assert.equal(getCircuitState('alchemy'), 'closed');
+    assert.equal(calls, 20);
+
+    for (const address of ['a.eth', 'b.eth']) {
+      await withUpstreamAddress(address, () => fetchFn('https://eth-mainnet.g.alchemy.com/nft/v3/key/getNFTsForOwner'));
+    }
+    assert.equal(getCircuitState('alchemy'), 'open');
+  });
+
+  it('keeps scoped breakers apart', async () => {
+    const fetchFn = withCircuitBreaker('alchemy', async (input) => statusResponse(String(input).includes('zora') ? 403 : 200), {
+      scopeByHost: (host) => host.split('.')[0],
+    });
+
+    for (const address of ['a.eth', 'b.eth', 'c.eth', 'd.eth', 'e.eth']) {
+      await withUpstreamAddress(address, () => fetchFn('https://zora-mainnet.g.alchemy.com/nft/v3/key/getNFTsForOwner'));
+    }
+    assert.equal(getCircuitState('alchemy:zora-mainnet'), 'open');
+    assert.equal((await fetchFn('https://eth-mainnet.g.alchemy.com/nft/v3/key/getNFTsForOwner')).status, 200);
+    assert.equal(getCircuitState('alchemy:eth-mainnet'), 'closed');
+  });
+
+  it('ignores hosts that belong to other providers', async () => {
+    const fetchFn = withCircuitBreaker('decentraland', async () => statusResponse(403));
+
+    for (let i = 0; i < 10; i += 1) {
+      await fetchFn('https://api.opensea.io/api/v1/assets');
+    }
+    assert.equal(getCircuitState('decentraland'), 'closed');
+    assert.equal(getCircuitState('opensea'), 'closed');
+  });
+
+  it('still opens when failures are interleaved with successes', async () => {
+    let calls = 0;
+    const fetchFn = withCircuitBreaker('zerion', async () => statusResponse(calls++ % 2 === 0 ? 429 : 200));
+
+    // Five 429s with a 200 after each of the first four.
+    for (let i = 0; i < 9; i += 1) {
+      await withUpstreamAddress(`0x${i}`, () => fetchFn('https://api.zerion.io/v1/wallets/0x1/portfolio'));
+    }
+    assert.equal(getCircuitState('zerion'), 'open');
+  });
+
+  it('counts requests that fail without a response', async () => {
+    const fetchFn = withCircuitBreaker('passport', async () => {
+      throw new DOMException('The operation was aborted due to timeout', 'TimeoutError');
+    });
+
+    for (let i = 0; i < 5; i += 1) {
+      await assert.rejects(
+        () => withUpstreamAddress(`0x${i}`, () => fetchFn('https://api.passport.xyz/v2/stamps/1/score/0x1')),
+        { name: 'TimeoutError' },
+      );
+    }
+    assert.equal(getCircuitState('passport'), 'open');
+  });
+
+  it('closes again after a successful trial call', () => {
+    const start = Date.now();
+    for (let i = 0; i < 5; i += 1) recordUpstreamResult('neynar', 503, `0x${i}`, start);
+    assert.equal(getCircuitState('neynar', start), 'open');
+
+    const afterCoolOff = start + 60 * 60 * 1000;
+    assert.equal(getCircuitState('neynar', afterCoolOff), 'half-open');
+    recordUpstreamResult('neynar', 200, '0x0', afterCoolOff);
+    assert.equal(getCircuitState('neynar', afterCoolOff), 'closed');
+  });
+});
+
+describe('Error backoff', () => {
+  it('doubles the retry delay per consecutive failure up to a cap', () => {
+    const ens = getServiceConfig('ens')!;
+    assert.equal(getErrorBackoffMs(ens, 1), ens.errorTtlMs);
+    assert.equal(getErrorBackoffMs(ens, 3), ens.errorTtlMs * 4);
+    assert.equal(getErrorBackoffMs(ens, 50), 24 * 60 * 60 * 1000);
+  });
+});
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { SERVICES_CONFIG } from '../src/lib/cacheStore';
+import { collectorRegistry, getCollector } from '../src/lib/collectors';
+import { createZerionCollector } from '../src/lib/collectors/zerion';
+import { CollectorError, withTimeout } from '../src/lib/collectors/shared';
+
+describe('Collector registry', () => {
+  it('has a collector for every configured service', () => {
+    for (const service of SERVICES_CONFIG) {
+      assert.equal(typeof getCollector(service.name), 'function', `missing collector for ${service.name}`);
+    }
+    assert.equal(Object.keys(collectorRegistry).length, SERVICES_CONFIG.length);
+    assert.equal(getCollector('unknown-service'), null);
+  });
+
+  it('calls collectors directly without going through HTTP', async () => {
+    const previousKey = process.env.ZERION_API_KEY;
+    process.env.ZERION_API_KEY = 'test-key';
+    try {
+      const collect = createZerionCollector({
+        fetchFn: async () => new Response(JSON.stringify({ data: { attributes: { total: { value: 42 } } } }), {
+          status: 200,
+          headers: { 'content-type': 'application/json' },
+        }),
+      });
+
+      const result = await collect('0x1111111111111111111111111111111111111111');
+      assert.equal(result.source, 'zerion');
+      assert.equal(result.totalUSD, 42);
+    } finally {
+      if (previousKey === undefined) delete process.env.ZERION_API_KEY;
+      else process.env.ZERION_API_KEY = previousKey;
+    }
+  });
+
+  it('surfaces validation failures as CollectorError with an HTTP status', async () => {
+    const collect = createZerionCollector({ fetchFn: fetch });
+    await assert.rejects(collect('not-an-address'), (error: unknown) => {
+      assert.ok(error instanceof CollectorError);
+      assert.equal(error.status, 400);
+      return true;
+    });
+  });
+
+  it('rejects with a TimeoutError when a collector is too slow', async () => {
+    const never = new Promise<never>(() => undefined);
+    await assert.rejects(withTimeout(never, 10, 'too slow'), { name: 'TimeoutError', message: 'too slow' });
+  });
+});
@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  CachedEnsRecord,
+  createEnsResolver,
+  EnsClient,
+  EnsRecordKind,
+  EnsRecordStore,
+  ENS_NEGATIVE_TTL_MS,
+  ENS_RECORD_TTL_MS,
+} from '../src/lib/ensResolver';
+
+const address = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const now = new Date('2025-01-01T12:00:00Z');
+
+function createStore() {
+  const records = new Map<string, CachedEnsRecord>();
+  const store: EnsRecordStore = {
+    get: async (kind: EnsRecordKind, key: string) => records.get(`${kind}:${key}`) ?? null,
+    set: async (kind: EnsRecordKind, key: string, record: CachedEnsRecord) => {
+      records.set(`${kind}:${key}`, record);
+    },
+  };
+  return { records, store };
+}
+
+function createClient(overrides: Partial<Record<keyof EnsClient, () => Promise<unknown>>> = {}) {
+  const calls: string[] = [];
+  const client = {
+    getAddressRecord: async () => {
+      calls.push('getAddressRecord');
+      return overrides.getAddressRecord ? overrides.getAddressRecord() : { id: 60, name: 'eth', value: address.toLowerCase() };
+    },
+    getName: async () => {
+      calls.push('getName');
+      return overrides.getName ? overrides.getName() : { name: 'vitalik.eth', match: true };
+    },
+    getTextRecord: async () => {
+      calls.push('getTextRecord');
+      return overrides.getTextRecord ? overrides.getTextRecord() : 'https://example.com/avatar.png';
+    },
+    getRecords: async () => {
+      calls.push('getRecords');
+      return overrides.getRecords ? overrides.getRecords() : null;
+    },
+  } as unknown as EnsClient;
+  return { calls, client };
+}
+
+describe('createEnsResolver', () => {
+  it('resolves each record once and serves the cached copy afterwards', async () => {
+    const { records, store } = createStore();
+    const { calls, client } = createClient();
+    const ens = createEnsResolver({ client, store, now: () => now });
+
+    const [first, second] = await Promise.all([ens.resolveName('vitalik.eth'), ens.resolveName('vitalik.eth')]);
+    assert.equal(first, address);
+    assert.equal(second, address);
+    assert.equal(await ens.resolveName('vitalik.eth'), address);
+    assert.equal(await ens.lookupAddress(address.toLowerCase()), 'vitalik.eth');
+    assert.equal(await ens.getText('vitalik.eth', 'avatar'), 'https://example.com/avatar.png');
+
+    assert.deepEqual(calls, ['getAddressRecord', 'getName', 'getTextRecord']);
+    assert.equal(records.get('address:vitalik.eth')?.expiresAt.getTime(), now.getTime() + ENS_RECORD_TTL_MS.address);
+    assert.ok(records.has(`name:${address}`));
+    assert.ok(records.has('text:vitalik.eth|avatar'));
+  });
+
+  it('caches misses for a shorter time', async () => {
+    const { records, store } = createStore();
+    const { client } = createClient({ getAddressRecord: async () => null });
+    const ens = createEnsResolver({ client, store, now: () => now });
+
+    assert.equal(await ens.resolveName('unregistered-name.eth'), null);
+    assert.deepEqual(records.get('address:unregistered-name.eth'), {
+      value: null,
+      expiresAt: new Date(now.getTime() + ENS_NEGATIVE_TTL_MS),
+    });
+  });
+
+  it('serves an expired record when the RPC fails', async () => {
+    const { records, store } = createStore();
+    records.set('address:vitalik.eth', { value: address, expiresAt: new Date(now.getTime() - 1) });
+    const { client } = createClient({
+      getAddressRecord: async () => {
+        throw new Error('rpc down');
+      },
+    });
+    const ens = createEnsResolver({ client, store, now: () => now });
+
+    assert.equal(await ens.resolveName('vitalik.eth'), address);
+    await assert.rejects(ens.resolveName('nick.eth'), /rpc down/);
+  });
+
+  it('drops empty text records and zero addresses from getRecords', async () => {
+    const { store } = createStore();
+    const { client } = createClient({
+      getRecords: async () => ({
+        texts: [{ key: 'description', value: 'gm' }, { key: 'url', value: '' }],
+        coins: [
+          { id: 0, name: 'btc', value: 'bc1qdemo' },
+          { id: 2147483658, name: 'op', value: '0x0000000000000000000000000000000000000000' },
+        ],
+        contentHash: { protocolType: 'ipfs', decoded: 'bafydemo' },
+        resolverAddress: '0x231b0Ee14048e9dCcD1d247744d114a4EB5E8E63',
+      }),
+    });
+    const ens = createEnsResolver({ client, store, now: () => now });
+
+    assert.deepEqual(await ens.getRecords('vitalik.eth', { texts: ['description', 'url'], coins: ['btc', 'op'], contentHash: true }), {
+      texts: { description: 'gm' },
+      coins: [{ coinType: 0, coin: 'btc', address: 'bc1qdemo' }],
+      contentHash: { protocolType: 'ipfs', decoded: 'bafydemo' },
+    });
+  });
+});
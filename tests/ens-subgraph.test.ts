@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { ENS_SUBGRAPH_ID, fetchOwnedDomains, getEnsSubgraphUrl } from '../src/lib/ensSubgraph';
+
+const address = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+
+function domain(id: string, createdAt = '1') {
+  return {
+    id,
+    name: `${id}.eth`,
+    createdAt,
+    subdomainCount: 0,
+    owner: null,
+    resolver: null,
+    registration: null,
+    wrappedDomain: null,
+  };
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+describe('getEnsSubgraphUrl', () => {
+  it('prefers an explicit URL, then the gateway with an API key', () => {
+    assert.equal(getEnsSubgraphUrl({ ENS_SUBGRAPH_URL: 'https://graph.example/ens', THEGRAPH_API_KEY: 'key' }), 'https://graph.example/ens');
+    assert.equal(
+      getEnsSubgraphUrl({ THEGRAPH_API_KEY: 'key' }),
+      `https://gateway.thegraph.com/api/key/subgraphs/id/${ENS_SUBGRAPH_ID}`,
+    );
+    assert.equal(getEnsSubgraphUrl({}), null);
+  });
+});
+
+describe('fetchOwnedDomains', () => {
+  it('pages through every role by id and merges names held in several roles', async () => {
+    const requests: Array<{ role: string; lastId: string; address: string }> = [];
+    const firstOwnerPage = Array.from({ length: 1000 }, (_, index) => domain(`a${String(index).padStart(4, '0')}`));
+
+    const fetchFn = (async (_url: string, init?: RequestInit) => {
+      const { query, variables } = JSON.parse(String(init?.body));
+      const role = /where: \{(\w+):/.exec(query)![1];
+      requests.push({ role, lastId: variables.lastId, address: variables.address });
+      if (role === 'owner') {
+        return jsonResponse({ data: { domains: variables.lastId === '' ? firstOwnerPage : [domain('b', '5')] } });
+      }
+      if (role === 'wrappedOwner') return jsonResponse({ data: { domains: [domain('b', '5'), domain('c', '9')] } });
+      return jsonResponse({ data: { domains: [] } });
+    }) as typeof fetch;
+
+    const { domains, complete } = await fetchOwnedDomains('https://graph.example/ens', fetchFn, address);
+
+    assert.equal(complete, true);
+    assert.equal(domains.length, 1002);
+    assert.deepEqual(domains.slice(0, 2).map(({ id, roles }) => ({ id, roles })), [
+      { id: 'c', roles: ['wrappedOwner'] },
+      { id: 'b', roles: ['owner', 'wrappedOwner'] },
+    ]);
+    assert.deepEqual(
+      requests.filter(({ role }) => role === 'owner').map(({ lastId }) => lastId),
+      ['', 'a0999'],
+    );
+    assert.ok(requests.every((request) => request.address === address.toLowerCase()));
+  });
+
+  it('returns the names read before the deadline, marked incomplete', async () => {
+    const fullPage = Array.from({ length: 1000 }, (_, index) => domain(`a${String(index).padStart(4, '0')}`));
+
+    const fetchFn = (async (_url: string, init?: RequestInit) => {
+      const { query, variables } = JSON.parse(String(init?.body));
+      const role = /where: \{(\w+):/.exec(query)![1];
+      if (role !== 'owner') return jsonResponse({ data: { domains: [] } });
+      if (variables.lastId === '') return jsonResponse({ data: { domains: fullPage } });
+      // Later pages hang until the request is aborted.
+      return new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted.', 'AbortError')));
+      });
+    }) as typeof fetch;
+
+    const { domains, complete } = await fetchOwnedDomains('https://graph.example/ens', fetchFn, address, Date.now() + 50);
+
+    assert.equal(complete, false);
+    assert.equal(domains.length, 1000);
+  });
+
+  it('rejects when the subgraph returns errors', async () => {
+    const fetchFn = (async () => jsonResponse({ errors: [{ message: 'indexer unavailable' }] })) as typeof fetch;
+    await assert.rejects(fetchOwnedDomains('https://graph.example/ens', fetchFn, address), /indexer unavailable/);
+  });
+});
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createMocks } from 'node-mocks-http';
+
+import { FastProfileData } from '../src/lib/cacheStore';
+import { getFastProfileEtag, matchesIfNoneMatch, sendJsonWithEtag } from '../src/lib/etag';
+
+const profile: FastProfileData = {
+  address: '0x1111111111111111111111111111111111111111',
+  services: { ens: { name: 'example.eth' } },
+  serviceTimestamps: { ens: '2025-01-01T00:00:00.000Z' },
+  serviceFreshness: { ens: 'fresh' },
+  lastContentUpdate: '2025-01-01T00:00:00.000Z',
+  cacheStatus: 'partial',
+  source: 'database-partial-cache',
+  loadTime: 12,
+};
+
+describe('getFastProfileEtag', () => {
+  it('ignores per-request fields and changes with service timestamps', () => {
+    const etag = getFastProfileEtag(profile);
+    assert.match(etag, /^"[\w-]+"$/);
+    assert.equal(getFastProfileEtag({ ...profile, loadTime: 99 }), etag);
+    assert.notEqual(getFastProfileEtag({ ...profile, serviceTimestamps: { ens: '2025-01-02T00:00:00.000Z' } }), etag);
+    assert.notEqual(getFastProfileEtag({ ...profile, serviceFreshness: { ens: 'stale' } }), etag);
+    assert.notEqual(getFastProfileEtag(profile, 'services=ens'), etag);
+  });
+});
+
+describe('matchesIfNoneMatch', () => {
+  it('handles lists, weak validators and *', () => {
+    assert.equal(matchesIfNoneMatch('"a", "b"', '"b"'), true);
+    assert.equal(matchesIfNoneMatch('W/"b"', '"b"'), true);
+    assert.equal(matchesIfNoneMatch('*', '"b"'), true);
+    assert.equal(matchesIfNoneMatch('"a"', '"b"'), false);
+    assert.equal(matchesIfNoneMatch(undefined, '"b"'), false);
+  });
+});
+
+describe('sendJsonWithEtag', () => {
+  it('sends the body with the ETag, then 304 on revalidation', () => {
+    const etag = getFastProfileEtag(profile);
+
+    const first = createMocks({ method: 'GET' });
+    sendJsonWithEtag(first.req, first.res, etag, profile);
+    assert.equal(first.res._getStatusCode(), 200);
+    assert.equal(first.res.getHeader('ETag'), etag);
+    assert.deepEqual(JSON.parse(first.res._getData()), profile);
+
+    const second = createMocks({ method: 'GET', headers: { 'if-none-match': etag } });
+    sendJsonWithEtag(second.req, second.res, etag, profile);
+    assert.equal(second.res._getStatusCode(), 304);
+    assert.equal(second.res._getData(), '');
+  });
+});
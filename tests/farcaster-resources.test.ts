@@ -0,0 +1,175 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createMocks } from 'node-mocks-http';
+
+import { createSubresourceCache, CachedSubresource, SubresourceStore } from '../src/lib/subresourceCache';
+import { createHandler as createFarcasterResourceHandler } from '../src/pages/api/services/farcaster/[resource]';
+
+const viewer = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+
+function createMemoryStore() {
+  const rows = new Map<string, CachedSubresource>();
+  const store: SubresourceStore = {
+    get: async (service, resource, key) => rows.get(`${service}:${resource}:${key}`) ?? null,
+    set: async (service, resource, key, entry) => {
+      rows.set(`${service}:${resource}:${key}`, entry);
+    },
+  };
+  return { rows, store };
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+describe('createSubresourceCache', () => {
+  it('serves fresh entries and shares one fetch between concurrent callers', async () => {
+    let now = new Date('2025-01-01T12:00:00Z');
+    const { store } = createMemoryStore();
+    const cache = createSubresourceCache({ store, now: () => now });
+    let fetches = 0;
+    const fetchValue = async () => ++fetches;
+
+    const [first, second] = await Promise.all([
+      cache.get('farcaster', 'casts', '3', 60_000, fetchValue),
+      cache.get('farcaster', 'casts', '3', 60_000, fetchValue),
+    ]);
+    now = new Date(now.getTime() + 30_000);
+    const cached = await cache.get('farcaster', 'casts', '3', 60_000, fetchValue);
+
+    assert.equal(fetches, 1);
+    assert.equal(first.data, 1);
+    assert.equal(second.data, 1);
+    assert.equal(cached.data, 1);
+    assert.equal(cached.expiresAt, '2025-01-01T12:01:00.000Z');
+  });
+
+  it('falls back to the expired entry when a refresh fails', async () => {
+    let now = new Date('2025-01-01T12:00:00Z');
+    const { store } = createMemoryStore();
+    const cache = createSubresourceCache({ store, now: () => now });
+
+    await cache.get('farcaster', 'channels', '3', 60_000, async () => ['dev']);
+    now = new Date(now.getTime() + 120_000);
+    const result = await cache.get('farcaster', 'channels', '3', 60_000, async () => {
+      throw new Error('rate limited');
+    });
+
+    assert.deepEqual(result.data, ['dev']);
+    assert.equal(result.stale, true);
+    await assert.rejects(
+      cache.get('farcaster', 'channels', '4', 60_000, async () => {
+        throw new Error('rate limited');
+      }),
+      /rate limited/,
+    );
+  });
+});
+
+describe('Farcaster resource route', () => {
+  let originalKey: string | undefined;
+
+  beforeEach(() => {
+    originalKey = process.env.NEYNAR_API_KEY;
+    process.env.NEYNAR_API_KEY = 'test-key';
+  });
+
+  afterEach(() => {
+    if (originalKey === undefined) {
+      delete process.env.NEYNAR_API_KEY;
+    } else {
+      process.env.NEYNAR_API_KEY = originalKey;
+    }
+  });
+
+  it('normalizes recent casts and caches them per fid', async () => {
+    const fetched: string[] = [];
+    const { rows, store } = createMemoryStore();
+    const handler = createFarcasterResourceHandler({
+      ens: { resolveName: async () => null },
+      cache: createSubresourceCache({ store }),
+      fetchFn: (async (url: string) => {
+        fetched.push(url);
+        return jsonResponse({
+          casts: [{
+            hash: '0xabcdef0123456789',
+            text: 'gm',
+            timestamp: '2025-01-01T00:00:00Z',
+            author: { username: 'dwr' },
+            channel: { id: 'dev' },
+            embeds: [{ url: 'https://example.com' }, { cast_id: { fid: 2, hash: '0x01' } }],
+            reactions: { likes_count: 5, recasts_count: 2 },
+            replies: { count: 1 },
+          }],
+        });
+      }) as typeof fetch,
+    });
+
+    for (let i = 0; i < 2; i++) {
+      const { req, res } = createMocks({ method: 'GET', query: { resource: 'casts', fid: '3' } });
+      await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+      assert.equal(res._getStatusCode(), 200);
+      const body = res._getJSONData();
+      assert.equal(body.resource, 'casts');
+      assert.deepEqual(body.data[0], {
+        hash: '0xabcdef0123456789',
+        text: 'gm',
+        timestamp: '2025-01-01T00:00:00Z',
+        url: 'https://warpcast.com/dwr/0xabcdef01',
+        channel: 'dev',
+        embeds: [{ url: 'https://example.com' }, { castHash: '0x01' }],
+        reactions: { likes: 5, recasts: 2, replies: 1 },
+      });
+    }
+
+    assert.equal(fetched.length, 1);
+    assert.match(fetched[0], /feed\/user\/casts\?fid=3&limit=10/);
+    assert.ok(rows.has('farcaster:casts:3'));
+  });
+
+  it('reports mutual follows with a viewer address', async () => {
+    const handler = createFarcasterResourceHandler({
+      ens: { resolveName: async () => null },
+      cache: createSubresourceCache({ store: createMemoryStore().store }),
+      fetchFn: (async (url: string) => {
+        if (url.includes('bulk-by-address')) return jsonResponse({ [viewer.toLowerCase()]: [{ fid: 99 }] });
+        if (url.includes('user/bulk')) {
+          return jsonResponse({ users: [{ fid: 3, viewer_context: { following: true, followed_by: false } }] });
+        }
+        return jsonResponse({
+          all_relevant_followers_dehydrated: [{ user: { fid: 5, username: 'v' } }, { user: { fid: 6, username: 'ted' } }],
+        });
+      }) as typeof fetch,
+    });
+    const { req, res } = createMocks({ method: 'GET', query: { resource: 'mutuals', fid: '3', viewer: viewer.toLowerCase() } });
+
+    await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+
+    assert.equal(res._getStatusCode(), 200);
+    assert.deepEqual(res._getJSONData().data, {
+      viewerAddress: viewer,
+      viewerFid: 99,
+      viewerFollows: true,
+      followsViewer: false,
+      mutualFollowersListed: 2,
+      sample: [{ fid: 5, username: 'v' }, { fid: 6, username: 'ted' }],
+    });
+  });
+
+  it('rejects unknown resources and missing viewers', async () => {
+    const handler = createFarcasterResourceHandler({
+      ens: { resolveName: async () => null },
+      cache: createSubresourceCache({ store: createMemoryStore().store }),
+      fetchFn: fetch,
+    });
+
+    const unknown = createMocks({ method: 'GET', query: { resource: 'likes', fid: '3' } });
+    await handler(unknown.req as unknown as NextApiRequest, unknown.res as unknown as NextApiResponse);
+    assert.equal(unknown.res._getStatusCode(), 404);
+
+    const mutuals = createMocks({ method: 'GET', query: { resource: 'mutuals', fid: '3' } });
+    await handler(mutuals.req as unknown as NextApiRequest, mutuals.res as unknown as NextApiResponse);
+    assert.equal(mutuals.res._getStatusCode(), 400);
+  });
+});
@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createMocks } from 'node-mocks-http';
+
+import { createAddressResolver } from '../src/lib/addressResolver';
+import { SERVICES_CONFIG } from '../src/lib/cacheStore';
+import { CachedServiceRow } from '../src/lib/fastProfileData';
+import { createBatchHandler as createHandler, MAX_BATCH_SIZE, ProfileRefresh } from '../src/lib/fastProfileBatch';
+
+const vitalik = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const other = '0x1111111111111111111111111111111111111111';
+
+function freshRows(address: string): (CachedServiceRow & { address: string })[] {
+  const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+  return SERVICES_CONFIG.map((service) => ({
+    address,
+    service: service.name,
+    data: JSON.stringify({ service: service.name }),
+    last_updated: new Date(),
+    expires_at: expiresAt,
+    error_count: 0,
+    last_error: null,
+  }));
+}
+
+function createBatchHandler(names: Record<string, string | null> = {}) {
+  const queries: string[][] = [];
+  const scheduled: ProfileRefresh[][] = [];
+  const handler = createHandler({
+    resolveAddress: createAddressResolver({
+      ens: {
+        resolveName: async (name) => {
+          if (name === 'broken.eth') throw new Error('rpc down');
+          return names[name] ?? null;
+        },
+      },
+    }),
+    findServiceRows: async (addresses) => {
+      queries.push(addresses);
+      return addresses.flatMap((address) => (address === vitalik ? freshRows(address) : []));
+    },
+    scheduleRefresh: async (refreshes) => {
+      scheduled.push(refreshes);
+    },
+  });
+  return { handler, queries, scheduled };
+}
+
+async function post(handler: ReturnType<typeof createHandler>, addresses: unknown) {
+  const { req, res } = createMocks({ method: 'POST', body: { addresses } });
+  await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+  return res;
+}
+
+describe('POST /api/fast-profile/batch', () => {
+  it('rejects batches over the size cap without resolving anything', async () => {
+    const { handler, queries } = createBatchHandler();
+
+    const res = await post(handler, Array.from({ length: MAX_BATCH_SIZE + 1 }, () => vitalik));
+
+    assert.equal(res._getStatusCode(), 400);
+    assert.equal(queries.length, 0);
+  });
+
+  it('reads every address in one query and collapses inputs for the same address', async () => {
+    const { handler, queries } = createBatchHandler({ 'vitalik.eth': vitalik });
+
+    const res = await post(handler, ['vitalik.eth', vitalik.toLowerCase(), vitalik, other]);
+    const { results } = res._getJSONData();
+
+    assert.equal(res._getStatusCode(), 200);
+    assert.deepEqual(queries, [[vitalik, other]]);
+    assert.deepEqual(results.map(({ profile }: { profile: { address: string } }) => profile.address), [vitalik, vitalik, vitalik, other]);
+    assert.equal(results[0].profile.ensName, 'vitalik.eth');
+    assert.equal(results[1].profile.ensName, null);
+    assert.equal(results[0].profile.cacheStatus, 'hit');
+  });
+
+  it('reports unresolvable inputs on their own and keeps the rest of the batch', async () => {
+    const { handler, scheduled } = createBatchHandler({ 'vitalik.eth': vitalik });
+
+    const res = await post(handler, ['vitalik.eth', 'missing.eth', 'broken.eth', 'not an address', 42, other]);
+    const { results } = res._getJSONData();
+
+    assert.equal(res._getStatusCode(), 200);
+    assert.equal(results.length, 6);
+    assert.equal(results[0].profile.address, vitalik);
+    for (const index of [1, 2, 3, 4]) {
+      assert.equal(results[index].profile, null);
+      assert.equal(typeof results[index].error, 'string');
+    }
+    assert.match(results[1].error, /does not resolve/);
+    assert.equal(results[5].profile.address, other);
+    // Only the uncached address needs a refresh.
+    assert.deepEqual(scheduled.flat().map(({ address }) => address), [other]);
+  });
+});
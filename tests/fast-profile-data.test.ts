@@ -0,0 +1,140 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { getServiceConfig, SERVICES_CONFIG } from '../src/lib/cacheStore';
+import { applyProfileStreamEvent, buildFastProfileData, CachedServiceRow, diffServiceRows } from '../src/lib/fastProfileData';
+
+const address = '0x1111111111111111111111111111111111111111';
+
+function row(service: string, expiresAt: Date | null, overrides: Partial<CachedServiceRow> = {}): CachedServiceRow {
+  return {
+    service,
+    data: JSON.stringify({ service }),
+    last_updated: new Date('2025-01-01T00:00:00Z'),
+    expires_at: expiresAt,
+    error_count: 0,
+    last_error: null,
+    ...overrides,
+  };
+}
+
+describe('buildFastProfileData', () => {
+  const now = new Date('2025-01-01T12:00:00Z');
+  const inAnHour = new Date(now.getTime() + 60 * 60 * 1000);
+
+  it('reports a cache hit when every service is fresh', () => {
+    const rows = SERVICES_CONFIG.map((service) => row(service.name, inAnHour));
+    const { profile, servicesNeedingRefresh } = buildFastProfileData(address, rows, now.getTime(), now);
+
+    assert.equal(profile.cacheStatus, 'hit');
+    assert.deepEqual(servicesNeedingRefresh, []);
+    assert.deepEqual(profile.services.ens, { service: 'ens' });
+  });
+
+  it('separates stale services from expired or missing ones', () => {
+    const debank = getServiceConfig('debank')!;
+    const staleExpiry = new Date(now.getTime() - debank.staleServeMs / 2);
+    const rows = [row('ens', inAnHour), row('debank', staleExpiry)];
+    const { profile, servicesNeedingRefresh, expiredServices } = buildFastProfileData(address, rows, now.getTime(), now);
+
+    assert.equal(profile.cacheStatus, 'partial');
+    assert.equal(profile.serviceFreshness?.debank, 'stale');
+    assert.ok(servicesNeedingRefresh.includes('debank'));
+    assert.ok(!expiredServices.includes('debank'));
+    assert.ok(expiredServices.includes('farcaster'));
+    assert.deepEqual(profile.services.farcaster, getServiceConfig('farcaster')!.defaultData);
+  });
+
+  it('serves default data for rows past the stale-serve window', () => {
+    const debank = getServiceConfig('debank')!;
+    const longExpired = new Date(now.getTime() - debank.staleServeMs - 1000);
+    const { profile, expiredServices } = buildFastProfileData(address, [row('debank', longExpired)], now.getTime(), now);
+
+    assert.equal(profile.serviceFreshness?.debank, 'expired');
+    assert.ok(expiredServices.includes('debank'));
+    assert.deepEqual(profile.services.debank, debank.defaultData);
+  });
+
+  it('surfaces current errors and falls back to default data on bad JSON', () => {
+    const rows = [row('alchemy', inAnHour, { data: '{not json', error_count: 2, last_error: 'API_ERROR' })];
+    const { profile } = buildFastProfileData(address, rows, now.getTime(), now);
+
+    assert.equal(profile.serviceErrors?.alchemy.lastError, 'API_ERROR');
+    assert.deepEqual(profile.services.alchemy, getServiceConfig('alchemy')!.defaultData);
+    assert.equal(profile.cacheStatus, 'partial');
+  });
+});
+
+describe('diffServiceRows', () => {
+  const now = new Date('2025-01-01T12:00:00Z');
+  const inAnHour = new Date(now.getTime() + 60 * 60 * 1000);
+
+  it('emits each changed row once', () => {
+    const seen = new Map<string, string>();
+    assert.equal(diffServiceRows(seen, [row('ens', inAnHour)], now).length, 1);
+    assert.deepEqual(diffServiceRows(seen, [row('ens', inAnHour)], now), []);
+
+    const updated = row('ens', inAnHour, { last_updated: now, data: JSON.stringify({ name: 'vitalik.eth' }) });
+    const [event] = diffServiceRows(seen, [updated], now);
+    assert.equal(event.type, 'service_updated');
+    assert.deepEqual(event.payload, {
+      service: 'ens',
+      data: { name: 'vitalik.eth' },
+      lastUpdated: now.toISOString(),
+      freshness: 'fresh',
+    });
+  });
+
+  it('reports failed refreshes as service_failed', () => {
+    const seen = new Map<string, string>();
+    const [event] = diffServiceRows(seen, [row('debank', inAnHour, { error_count: 1, last_error: 'TimeoutError' })], now);
+    assert.equal(event.type, 'service_failed');
+    assert.equal(event.payload.service, 'debank');
+  });
+});
+
+describe('applyProfileStreamEvent', () => {
+  const now = new Date('2025-01-01T12:00:00Z');
+  const inAnHour = new Date(now.getTime() + 60 * 60 * 1000);
+
+  it('replaces the service data and clears its error', () => {
+    const rows = [row('alchemy', inAnHour, { error_count: 1, last_error: 'API_ERROR' })];
+    const { profile } = buildFastProfileData(address, rows, now.getTime(), now);
+
+    const next = applyProfileStreamEvent(profile, {
+      type: 'service_updated',
+      payload: { service: 'alchemy', data: { nfts: [] }, lastUpdated: now.toISOString(), freshness: 'fresh' },
+    });
+
+    assert.deepEqual(next.services.alchemy, { nfts: [] });
+    assert.equal(next.serviceErrors, undefined);
+    assert.equal(next.serviceTimestamps?.alchemy, now.toISOString());
+    assert.equal(next.lastContentUpdate, now.toISOString());
+  });
+
+  it('keeps the previous data when a refresh fails', () => {
+    const { profile } = buildFastProfileData(address, [row('ens', inAnHour)], now.getTime(), now);
+
+    const next = applyProfileStreamEvent(profile, {
+      type: 'service_failed',
+      payload: { service: 'ens', error: 'TimeoutError', errorCount: 1, lastAttempt: now.toISOString() },
+    });
+
+    assert.deepEqual(next.services.ens, { service: 'ens' });
+    assert.equal(next.serviceErrors?.ens.lastError, 'TimeoutError');
+  });
+});
+
+describe('buildFastProfileData with selected services', () => {
+  const now = new Date('2025-01-01T12:00:00Z');
+  const inAnHour = new Date(now.getTime() + 60 * 60 * 1000);
+
+  it('only returns and refreshes the selected services', () => {
+    const { profile, servicesNeedingRefresh } =
+      buildFastProfileData(address, [row('ens', inAnHour)], now.getTime(), now, ['ens', 'farcaster']);
+
+    assert.deepEqual(Object.keys(profile.services), ['ens', 'farcaster']);
+    assert.deepEqual(servicesNeedingRefresh, ['farcaster']);
+    assert.equal(profile.cacheStatus, 'partial');
+  });
+});
@@ -0,0 +1,183 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createMocks } from 'node-mocks-http';
+
+import { CircuitOpenError } from '../src/lib/circuitBreaker';
+import { createAlchemyCollector } from '../src/lib/collectors/alchemy';
+import { AlchemyNFT, createAlchemyInventory, getAlchemyChains } from '../src/lib/collectors/alchemyInventory';
+import { CachedSubresource, createSubresourceCache, SubresourceStore } from '../src/lib/subresourceCache';
+import { createHandler as createNftsHandler } from '../src/pages/api/nfts';
+
+const owner = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const ens = { resolveName: async () => owner };
+
+function createMemoryStore(): SubresourceStore {
+  const rows = new Map<string, CachedSubresource>();
+  return {
+    get: async (service, resource, key) => rows.get(`${service}:${resource}:${key}`) ?? null,
+    set: async (service, resource, key, entry) => {
+      rows.set(`${service}:${resource}:${key}`, entry);
+    },
+  };
+}
+
+function createNft(contract: string, tokenId: string): AlchemyNFT {
+  return {
+    tokenId,
+    tokenType: 'ERC721',
+    name: `Token ${tokenId}`,
+    contract: { address: contract, name: `Collection ${contract.slice(-1)}`, openSeaMetadata: { floorPrice: 0.5 } },
+    image: { cachedUrl: `https://nft-cdn.example/${tokenId}.png` },
+    raw: { metadata: { attributes: [{ trait_type: 'Background', value: 'Blue' }] } },
+    timeLastUpdated: '2025-01-01T00:00:00Z',
+  };
+}
+
+// Serves `pages` in order per network, chaining them with page keys.
+function createAlchemyFetch(pagesByNetwork: Record<string, AlchemyNFT[][]>) {
+  const requested: string[] = [];
+  const fetchFn = (async (input: RequestInfo | URL) => {
+    const url = new URL(String(input));
+    requested.push(url.href);
+    const network = url.hostname.split('.')[0];
+    const pages = pagesByNetwork[network] ?? [[]];
+    const index = Number(url.searchParams.get('pageKey') ?? 0);
+    const total = pages.reduce((sum, page) => sum + page.length, 0);
+    return new Response(JSON.stringify({
+      ownedNfts: pages[index],
+      totalCount: total,
+      pageKey: index + 1 < pages.length ? String(index + 1) : null,
+    }), { status: 200, headers: { 'content-type': 'application/json' } });
+  }) as typeof fetch;
+  return { fetchFn, requested };
+}
+
+describe('Alchemy NFT inventory', () => {
+  const envKeys = ['ALCHEMY_API_KEY', 'ALCHEMY_NFT_CHAINS'] as const;
+  let originalEnv: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    originalEnv = Object.fromEntries(envKeys.map((key) => [key, process.env[key]]));
+    process.env.ALCHEMY_API_KEY = 'test-key';
+    delete process.env.ALCHEMY_NFT_CHAINS;
+  });
+
+  afterEach(() => {
+    for (const key of envKeys) {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = originalEnv[key];
+      }
+    }
+  });
+
+  it('reads configured networks and ignores unknown ones', () => {
+    assert.deepEqual(getAlchemyChains({}), ['eth']);
+    assert.deepEqual(getAlchemyChains({ ALCHEMY_NFT_CHAINS: 'base, eth,solana,base' }), ['base', 'eth']);
+  });
+
+  it('pages through every network and summarizes the inventory', async () => {
+    process.env.ALCHEMY_NFT_CHAINS = 'eth,base';
+    const { fetchFn, requested } = createAlchemyFetch({
+      'eth-mainnet': [
+        [createNft('0xa', '1'), createNft('0xa', '2')],
+        [createNft('0xb', '3')],
+      ],
+      'base-mainnet': [[createNft('0xc', '4')]],
+    });
+    const collect = createAlchemyCollector({
+      ens,
+      inventory: createAlchemyInventory({ fetchFn, cache: createSubresourceCache({ store: createMemoryStore() }) }),
+    });
+
+    const result = await collect(owner);
+
+    assert.equal(requested.length, 3);
+    // Only Ethereum supports transfer-time ordering, which is what returns `acquiredAt`.
+    const orderByNetwork = requested.map((url) => `${new URL(url).hostname.split('.')[0]}:${new URL(url).searchParams.get('orderBy')}`);
+    assert.deepEqual(orderByNetwork.sort(), ['base-mainnet:null', 'eth-mainnet:transferTime', 'eth-mainnet:transferTime']);
+    assert.equal(result.totalCount, 4);
+    assert.deepEqual(result.nfts.map(({ chain, tokenId }) => `${chain}:${tokenId}`), ['eth:1', 'eth:2', 'eth:3', 'base:4']);
+    assert.deepEqual(result.collections['eth:0xa'], { name: 'Collection a', count: 2, chain: 'eth' });
+    assert.deepEqual(result.chains?.map(({ chain, totalCount }) => [chain, totalCount]), [['eth', 3], ['base', 1]]);
+    assert.deepEqual(result.nfts[0].attributes, [{ trait_type: 'Background', value: 'Blue' }]);
+    assert.equal(result.partial, undefined);
+  });
+
+  it('marks the result partial when a network fails', async () => {
+    process.env.ALCHEMY_NFT_CHAINS = 'eth,base';
+    const { fetchFn } = createAlchemyFetch({ 'eth-mainnet': [[createNft('0xa', '1')]] });
+    const collect = createAlchemyCollector({
+      ens,
+      inventory: createAlchemyInventory({
+        fetchFn: (async (input: RequestInfo | URL, init?: RequestInit) => (String(input).includes('base-mainnet')
+          ? new Response('', { status: 503 })
+          : fetchFn(input, init))) as typeof fetch,
+        cache: createSubresourceCache({ store: createMemoryStore() }),
+      }),
+    });
+
+    const result = await collect(owner);
+
+    assert.equal(result.totalCount, 1);
+    assert.equal(result.partial, true);
+    assert.deepEqual(result.chains?.map(({ chain, error }) => [chain, error]), [['eth', undefined], ['base', 'API_ERROR']]);
+  });
+
+  it('rejects with the open breaker when no network could be read', async () => {
+    process.env.ALCHEMY_NFT_CHAINS = 'eth,base';
+    const collect = createAlchemyCollector({
+      ens,
+      inventory: {
+        getInventory: async (_address, chain) => {
+          if (chain === 'base') throw new CircuitOpenError('alchemy:base-mainnet', new Date(Date.now() + 60_000));
+          throw new Error('socket hang up');
+        },
+      },
+    });
+
+    await assert.rejects(() => collect(owner), CircuitOpenError);
+  });
+
+  it('serves cursor pages of the cached inventory from /api/nfts', async () => {
+    process.env.ALCHEMY_NFT_CHAINS = 'eth,zora';
+    const { fetchFn, requested } = createAlchemyFetch({
+      'zora-mainnet': [[createNft('0xa', '1'), createNft('0xa', '2'), createNft('0xa', '3')]],
+    });
+    const handler = createNftsHandler({
+      ens,
+      inventory: createAlchemyInventory({ fetchFn, cache: createSubresourceCache({ store: createMemoryStore() }) }),
+    });
+
+    const first = createMocks({ method: 'GET', query: { address: owner, chain: 'zora', limit: '2' } });
+    await handler(first.req as unknown as NextApiRequest, first.res as unknown as NextApiResponse);
+    const firstPage = first.res._getJSONData();
+    assert.equal(first.res._getStatusCode(), 200);
+    assert.deepEqual(firstPage.nfts.map(({ tokenId }: { tokenId: string }) => tokenId), ['1', '2']);
+    assert.equal(firstPage.nextCursor, '2');
+
+    const second = createMocks({ method: 'GET', query: { address: owner, chain: 'zora', limit: '2', cursor: firstPage.nextCursor } });
+    await handler(second.req as unknown as NextApiRequest, second.res as unknown as NextApiResponse);
+    const secondPage = second.res._getJSONData();
+    assert.deepEqual(secondPage.nfts.map(({ tokenId }: { tokenId: string }) => tokenId), ['3']);
+    assert.equal(secondPage.nextCursor, null);
+    assert.equal(requested.length, 1);
+  });
+
+  it('rejects unsupported chains and chains missing from ALCHEMY_NFT_CHAINS', async () => {
+    const { fetchFn, requested } = createAlchemyFetch({});
+    const handler = createNftsHandler({
+      ens,
+      inventory: createAlchemyInventory({ fetchFn, cache: createSubresourceCache({ store: createMemoryStore() }) }),
+    });
+
+    for (const chain of ['solana', 'base']) {
+      const { req, res } = createMocks({ method: 'GET', query: { address: owner, chain } });
+      await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+      assert.equal(res._getStatusCode(), 400, chain);
+    }
+    assert.equal(requested.length, 0);
+  });
+});
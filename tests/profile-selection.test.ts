@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { FastProfileData } from '../src/lib/cacheStore';
+import { parseProfileSelection, ProfileSelectionError, projectProfileFields } from '../src/lib/profileSelection';
+
+describe('parseProfileSelection', () => {
+  it('selects every service when nothing is requested', () => {
+    assert.deepEqual(parseProfileSelection({}), { services: null, fields: null });
+  });
+
+  it('accepts comma-separated and repeated service names', () => {
+    const { services } = parseProfileSelection({ services: ['ens,farcaster', 'ens'] });
+    assert.deepEqual(services, ['ens', 'farcaster']);
+  });
+
+  it('rejects unknown service names', () => {
+    assert.throws(() => parseProfileSelection({ services: 'ens,myspace' }), (error: unknown) =>
+      error instanceof ProfileSelectionError && error.message.startsWith('Unknown service: myspace'));
+    assert.throws(() => parseProfileSelection({ fields: 'myspace.friends' }), ProfileSelectionError);
+  });
+
+  it('derives the services from fields', () => {
+    const { services, fields } = parseProfileSelection({ fields: 'farcaster.username,debank.totalUSD,farcaster.fid' });
+    assert.deepEqual(services, ['farcaster', 'debank']);
+    assert.deepEqual(fields, { farcaster: [['username'], ['fid']], debank: [['totalUSD']] });
+  });
+
+  it('rejects fields outside the requested services', () => {
+    assert.throws(() => parseProfileSelection({ services: 'ens', fields: 'farcaster.username' }), ProfileSelectionError);
+  });
+});
+
+describe('projectProfileFields', () => {
+  const profile: FastProfileData = {
+    address: '0x1111111111111111111111111111111111111111',
+    services: {
+      farcaster: { username: 'dwr', fid: 3, bio: 'long text' },
+      alchemy: { nfts: [{ name: 'A', image: 'a.png' }, { name: 'B' }] },
+      ens: null,
+    },
+    lastContentUpdate: new Date(0).toISOString(),
+    cacheStatus: 'hit',
+    source: 'database-cache',
+    loadTime: 1,
+  };
+
+  it('keeps only the requested paths, through arrays', () => {
+    const { fields } = parseProfileSelection({ fields: 'farcaster.username,farcaster.missing,alchemy.nfts.name,ens' });
+    const projected = projectProfileFields(profile, fields);
+
+    assert.deepEqual(projected.services, {
+      farcaster: { username: 'dwr' },
+      alchemy: { nfts: [{ name: 'A' }, { name: 'B' }] },
+      ens: null,
+    });
+  });
+
+  it('returns the profile unchanged without fields', () => {
+    assert.equal(projectProfileFields(profile, null), profile);
+  });
+});
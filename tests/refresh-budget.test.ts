@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { SERVICES_CONFIG } from '../src/lib/cacheStore';
+import { fitsInBudget, getRefreshBudget } from '../src/lib/refreshBudget';
+
+describe('Background refresh budget', () => {
+  it('defaults to every service within 75% of a 60s function', () => {
+    const budget = getRefreshBudget({});
+    assert.equal(budget.maxJobs, SERVICES_CONFIG.length);
+    assert.equal(budget.concurrency, 4);
+    assert.equal(budget.budgetMs, 45_000);
+  });
+
+  it('reads overrides from env and never exceeds maxDuration', () => {
+    const budget = getRefreshBudget({
+      BACKGROUND_REFRESH_CONCURRENCY: '10',
+      BACKGROUND_REFRESH_MAX_SERVICES: '3',
+      FUNCTION_MAX_DURATION_SECONDS: '30',
+      BACKGROUND_REFRESH_BUDGET_SECONDS: '90',
+    });
+    assert.equal(budget.concurrency, 10);
+    assert.equal(budget.maxJobs, 3);
+    assert.equal(budget.budgetMs, 30_000);
+  });
+
+  it('ignores invalid values', () => {
+    const budget = getRefreshBudget({ BACKGROUND_REFRESH_CONCURRENCY: 'lots', BACKGROUND_REFRESH_MAX_SERVICES: '-1' });
+    assert.equal(budget.concurrency, 4);
+    assert.equal(budget.maxJobs, SERVICES_CONFIG.length);
+  });
+
+  it('only starts collectors whose timeout fits before the deadline', () => {
+    const now = 1_000_000;
+    assert.equal(fitsInBudget(20_000, now + 25_000, now), true);
+    assert.equal(fitsInBudget(20_000, now + 15_000, now), false);
+    assert.equal(fitsInBudget(20_000, undefined, now), true);
+  });
+
+  it('ranks services in the order the profile page renders them', () => {
+    const order = [...SERVICES_CONFIG].sort((a, b) => b.renderPriority - a.renderPriority).map((s) => s.name);
+    assert.deepEqual(order, [
+      'farcaster', 'ens', 'icebreaker', 'xmtp', 'alchemy', 'opensea', 'debank', 'zerion', 'decentraland', 'gitcoin-passport',
+    ]);
+  });
+});
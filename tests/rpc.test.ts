@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { custom, HttpRequestError, RpcRequestError } from 'viem';
+import { mainnet } from 'viem/chains';
+
+import { createRpcHealthTracker, failoverTransport, getRpcUrls } from '../src/lib/rpc';
+
+const urls = ['https://a.example', 'https://b.example', 'https://c.example'];
+
+describe('getRpcUrls', () => {
+  it('puts Alchemy first, then ETH_RPC_URLS without duplicates', () => {
+    assert.deepEqual(
+      getRpcUrls({ ALCHEMY_API_KEY: 'key', ETH_RPC_URLS: 'https://a.example, https://b.example,https://a.example' }),
+      ['https://eth-mainnet.g.alchemy.com/v2/key', 'https://a.example', 'https://b.example'],
+    );
+    assert.ok(getRpcUrls({}).length > 1);
+  });
+});
+
+describe('createRpcHealthTracker', () => {
+  it('keeps the configured order until endpoints have samples', () => {
+    assert.deepEqual(createRpcHealthTracker(urls).rank(), urls);
+  });
+
+  it('prefers fast, reliable endpoints and benches failing ones', () => {
+    const tracker = createRpcHealthTracker(urls);
+    tracker.recordSuccess(urls[0], 900);
+    tracker.recordSuccess(urls[1], 100);
+    assert.deepEqual(tracker.rank(), [urls[1], urls[2], urls[0]]);
+
+    const now = Date.now();
+    for (let i = 0; i < 3; i += 1) tracker.recordFailure(urls[1], new Error('boom'), 100, now);
+    assert.equal(tracker.rank(now).at(-1), urls[1]);
+
+    const health = tracker.getHealth(now).find((endpoint) => endpoint.endpoint === 'b.example')!;
+    assert.equal(health.failures, 3);
+    assert.equal(health.lastError, 'boom');
+    assert.ok(health.coolingDownUntil);
+  });
+});
+
+describe('failoverTransport', () => {
+  function createTransport(behaviour: Record<string, 'ok' | 'down' | 'revert'>) {
+    const calls: string[] = [];
+    const tracker = createRpcHealthTracker(Object.keys(behaviour));
+    const transport = failoverTransport(tracker, {
+      createEndpointTransport: (url) =>
+        custom({
+          request: async () => {
+            calls.push(url);
+            if (behaviour[url] === 'down') throw new HttpRequestError({ url, status: 503 });
+            if (behaviour[url] === 'revert') {
+              throw new RpcRequestError({ body: {}, url, error: { code: 3, message: 'execution reverted' } });
+            }
+            return '0x1';
+          },
+        }),
+    })({ chain: mainnet });
+    return { calls, tracker, transport };
+  }
+
+  it('fails over to the next endpoint when one is down', async () => {
+    const { calls, tracker, transport } = createTransport({ [urls[0]]: 'down', [urls[1]]: 'ok' });
+
+    assert.equal(await transport.request({ method: 'eth_blockNumber' }), '0x1');
+    assert.deepEqual(calls, [urls[0], urls[1]]);
+    assert.equal(tracker.getHealth()[0].failures, 1);
+  });
+
+  it('does not retry errors from the call itself', async () => {
+    const { calls, transport } = createTransport({ [urls[0]]: 'revert', [urls[1]]: 'ok' });
+
+    await assert.rejects(transport.request({ method: 'eth_call' }), RpcRequestError);
+    assert.deepEqual(calls, [urls[0]]);
+  });
+});
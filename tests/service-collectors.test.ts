@@ -3,6 +3,10 @@ import { describe, it, beforeEach, afterEach } from 'node:test';
 import { createMocks } from 'node-mocks-http';
 import type { NextApiRequest, NextApiResponse } from 'next';
 
+import { createAlchemyInventory } from '../src/lib/collectors/alchemyInventory';
+import { createOpenSeaPrices } from '../src/lib/collectors/openseaPrices';
+import type { EnsResolver } from '../src/lib/ensResolver';
+import { CachedSubresource, createSubresourceCache, SubresourceStore } from '../src/lib/subresourceCache';
 import { createHandler as createEnsHandler } from '../src/pages/api/services/ens';
 import { createHandler as createFarcasterHandler } from '../src/pages/api/services/farcaster';
 import { createHandler as createAlchemyHandler } from '../src/pages/api/services/alchemy';
@@ -15,6 +19,19 @@ import { createHandler as createXmtpHandler } from '../src/pages/api/services/xm
 
 const demoAddress = '0x1111111111111111111111111111111111111111';
 
+function createEnsMock(primaryName: string | null = null): EnsResolver {
+  return {
+    resolveName: async () => demoAddress,
+    lookupAddress: async () => primaryName,
+    getText: async () => null,
+    getRecords: async () => ({ texts: {}, coins: [], contentHash: null }),
+  };
+}
+
+const noAvatars = { resolveAvatar: async () => null };
+
+const noStore: SubresourceStore = { get: async () => null, set: async () => undefined };
+
 function mockResponse(body: unknown, status = 200): Response {
   return new Response(JSON.stringify(body), {
     status,
@@ -22,18 +39,47 @@ function mockResponse(body: unknown, status = 200): Response {
   });
 }
 
+// Answers ENS subgraph queries with the domains listed for the queried role.
+function createSubgraphFetch(domainsByRole: Record<string, unknown[]>): typeof fetch {
+  return (async (_url: string, init?: RequestInit) => {
+    const { query } = JSON.parse(String(init?.body));
+    const role = /where: \{(\w+):/.exec(query)?.[1] ?? '';
+    return mockResponse({ data: { domains: domainsByRole[role] ?? [] } });
+  }) as typeof fetch;
+}
+
 describe('ENS service collector', () => {
+  let originalSubgraphUrl: string | undefined;
+
+  beforeEach(() => {
+    originalSubgraphUrl = process.env.ENS_SUBGRAPH_URL;
+    process.env.ENS_SUBGRAPH_URL = 'https://subgraph.example/ens';
+  });
+
+  afterEach(() => {
+    if (originalSubgraphUrl === undefined) {
+      delete process.env.ENS_SUBGRAPH_URL;
+    } else {
+      process.env.ENS_SUBGRAPH_URL = originalSubgraphUrl;
+    }
+  });
+
   it('resolves names and other records using injected dependencies', async () => {
-    const ensClientMock = {
-      getAddressRecord: async () => ({ value: demoAddress, id: 60 }),
-      getName: async () => ({ name: 'demo.eth' }),
-      getTextRecord: async () => null,
-    } as const;
 
-    const fetchFn = async () =>
-      mockResponse({ data: { domains: [{ name: 'demo.eth' }, { name: 'alt.eth' }] } });
+    const fetchFn = createSubgraphFetch({
+      owner: [
+        { id: '0x01', name: 'demo.eth', createdAt: '2' },
+        { id: '0x02', name: 'alt.eth', createdAt: '1' },
+      ],
+    });
 
-    const handler = createEnsHandler({ ensClient: ensClientMock, fetchFn });
+    const handler = createEnsHandler({
+      ens: createEnsMock('demo.eth'),
+      avatars: {
+        resolveAvatar: async () => ({ record: 'ipfs://bafyavatar', kind: 'uri', imageUri: 'ipfs://bafyavatar', url: 'https://ipfs.io/ipfs/bafyavatar' }),
+      },
+      fetchFn,
+    });
     const { req, res } = createMocks({ method: 'GET', query: { address: demoAddress } });
 
     await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
@@ -42,16 +88,183 @@ describe('ENS service collector', () => {
     const payload = res._getJSONData();
     assert.equal(payload.primaryName, 'demo.eth');
     assert.deepEqual(payload.otherNames, ['alt.eth']);
+    assert.equal(payload.namesStatus, 'complete');
+    assert.equal(payload.avatar, 'https://ipfs.io/ipfs/bafyavatar');
     assert.ok(payload.profileUrl.includes('demo.eth'));
   });
 
+  it('marks the name list unavailable when the subgraph is not configured', async () => {
+    delete process.env.ENS_SUBGRAPH_URL;
+    const originalApiKey = process.env.THEGRAPH_API_KEY;
+    delete process.env.THEGRAPH_API_KEY;
+
+    try {
+      const handler = createEnsHandler({
+        ens: createEnsMock('demo.eth'),
+        avatars: noAvatars,
+        fetchFn: async () => assert.fail('the subgraph should not be queried'),
+      });
+      const { req, res } = createMocks({ method: 'GET', query: { address: demoAddress } });
+
+      await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+
+      assert.equal(res._getStatusCode(), 200);
+      const payload = res._getJSONData();
+      assert.equal(payload.primaryName, 'demo.eth');
+      assert.deepEqual(payload.otherNames, []);
+      assert.equal(payload.namesStatus, 'unavailable');
+    } finally {
+      if (originalApiKey !== undefined) process.env.THEGRAPH_API_KEY = originalApiKey;
+    }
+  });
+
+  it('returns text records, contenthash and multichain addresses for the primary name', async () => {
+    const queried: string[] = [];
+    const ens: EnsResolver = {
+      ...createEnsMock('demo.eth'),
+      getRecords: async (name, query) => {
+        queried.push(name, ...query.texts);
+        return {
+          texts: { description: 'gm', 'com.github': 'demo' },
+          coins: [
+            { coinType: 0, coin: 'btc', address: 'bc1qdemo' },
+            { coinType: 2147483658, coin: 'op', address: demoAddress },
+          ],
+          contentHash: { protocolType: 'ipfs', decoded: 'bafydemo' },
+        };
+      },
+    };
+    const handler = createEnsHandler({ ens, avatars: noAvatars, fetchFn: async () => mockResponse({ data: { domains: [] } }) });
+    const { req, res } = createMocks({ method: 'GET', query: { address: demoAddress } });
+
+    await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+
+    assert.equal(res._getStatusCode(), 200);
+    const payload = res._getJSONData();
+    assert.deepEqual(queried.slice(0, 2), ['demo.eth', 'description']);
+    assert.deepEqual(payload.texts, { description: 'gm', 'com.github': 'demo' });
+    assert.deepEqual(payload.contenthash, { protocolType: 'ipfs', decoded: 'bafydemo', url: 'https://ipfs.io/ipfs/bafydemo' });
+    assert.deepEqual(payload.addresses, [
+      { coin: 'btc', label: 'Bitcoin', coinType: 0, chainId: null, address: 'bc1qdemo' },
+      { coin: 'op', label: 'Optimism', coinType: 2147483658, chainId: 10, address: demoAddress },
+    ]);
+  });
+
+  it('returns registration, expiry and ownership details for owned names', async () => {
+    const now = new Date('2025-06-01T00:00:00Z');
+    const seconds = (iso: string) => String(Date.parse(iso) / 1000);
+    const owner = demoAddress.toLowerCase();
+    const fetchFn = createSubgraphFetch({
+      wrappedOwner: [
+        {
+          id: '0x01',
+          name: 'demo.eth',
+          createdAt: seconds('2020-01-01T00:00:00Z'),
+          subdomainCount: 2,
+          owner: { id: '0xd4416b13d2b3a9abae7acd5d6c2bbdbe25686401' },
+          resolver: { address: '0x231b0ee14048e9dccd1d247744d114a4eb5e8e63' },
+          registration: {
+            registrationDate: seconds('2020-01-01T00:00:00Z'),
+            expiryDate: seconds('2025-06-21T00:00:00Z'),
+            registrant: { id: '0xd4416b13d2b3a9abae7acd5d6c2bbdbe25686401' },
+          },
+          wrappedDomain: { expiryDate: seconds('2025-09-19T00:00:00Z'), fuses: 196608, owner: { id: owner } },
+        },
+      ],
+      owner: [
+        {
+          id: '0x02',
+          name: 'lapsed.eth',
+          createdAt: seconds('2021-01-01T00:00:00Z'),
+          subdomainCount: 0,
+          owner: { id: owner },
+          resolver: null,
+          registration: {
+            registrationDate: seconds('2021-01-01T00:00:00Z'),
+            expiryDate: seconds('2025-05-01T00:00:00Z'),
+            registrant: { id: owner },
+          },
+          wrappedDomain: null,
+        },
+        { id: '0x03', name: 'sub.demo.eth', createdAt: seconds('2022-01-01T00:00:00Z'), subdomainCount: 0, owner: { id: owner }, resolver: null, registration: null, wrappedDomain: null },
+      ],
+      registrant: [
+        {
+          id: '0x02',
+          name: 'lapsed.eth',
+          createdAt: seconds('2021-01-01T00:00:00Z'),
+          subdomainCount: 0,
+          owner: { id: owner },
+          resolver: null,
+          registration: {
+            registrationDate: seconds('2021-01-01T00:00:00Z'),
+            expiryDate: seconds('2025-05-01T00:00:00Z'),
+            registrant: { id: owner },
+          },
+          wrappedDomain: null,
+        },
+      ],
+    });
+
+    const handler = createEnsHandler({ ens: createEnsMock('demo.eth'), avatars: noAvatars, fetchFn, now: () => now });
+    const { req, res } = createMocks({ method: 'GET', query: { address: demoAddress } });
+
+    await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+
+    const payload = res._getJSONData();
+    assert.deepEqual(payload.otherNames, ['sub.demo.eth', 'lapsed.eth']);
+    const byName = Object.fromEntries(payload.names.map((name: { name: string }) => [name.name, name]));
+    assert.deepEqual(byName['demo.eth'], {
+      name: 'demo.eth',
+      registeredAt: '2020-01-01T00:00:00.000Z',
+      expiresAt: '2025-06-21T00:00:00.000Z',
+      gracePeriodEndsAt: '2025-09-19T00:00:00.000Z',
+      status: 'active',
+      wrapped: true,
+      fuses: ['PARENT_CANNOT_CONTROL', 'IS_DOT_ETH'],
+      registrant: demoAddress,
+      controller: demoAddress,
+      resolver: '0x231b0Ee14048e9dCcD1d247744d114a4EB5E8E63',
+      roles: ['wrappedOwner'],
+      subnameCount: 2,
+    });
+    assert.equal(byName['lapsed.eth'].status, 'grace-period');
+    assert.deepEqual(byName['lapsed.eth'].roles, ['owner', 'registrant']);
+    assert.equal(byName['lapsed.eth'].resolver, null);
+    assert.equal(byName['sub.demo.eth'].status, 'no-expiry');
+    assert.equal(byName['sub.demo.eth'].expiresAt, null);
+  });
+
+  it('verifies that the primary name resolves back to the address', async () => {
+    const impostor = '0x2222222222222222222222222222222222222222';
+    const collect = async (ens: EnsResolver, input: string) => {
+      const handler = createEnsHandler({ ens, avatars: noAvatars, fetchFn: createSubgraphFetch({}) });
+      const { req, res } = createMocks({ method: 'GET', query: { address: input } });
+      await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+      return res._getJSONData();
+    };
+
+    const verified = await collect(createEnsMock('demo.eth'), demoAddress);
+    assert.equal(verified.verified, true);
+    assert.equal(verified.reverseName, 'demo.eth');
+
+    // The queried name points at the address, whose primary name is something else.
+    const otherPrimary = await collect(createEnsMock('real.eth'), 'demo.eth');
+    assert.equal(otherPrimary.primaryName, 'demo.eth');
+    assert.equal(otherPrimary.verified, false);
+    assert.equal(otherPrimary.reverseName, 'real.eth');
+
+    // The reverse record claims a name that resolves elsewhere.
+    const spoofed = await collect({ ...createEnsMock('vitalik.eth'), resolveName: async (name) => (name === 'vitalik.eth' ? impostor : demoAddress) }, demoAddress);
+    assert.equal(spoofed.verified, false);
+    assert.equal(spoofed.reverseName, null);
+    assert.equal(spoofed.primaryName, 'No primary ENS name set');
+  });
+
   it('fails fast when address is missing', async () => {
     const handler = createEnsHandler({
-      ensClient: {
-        getAddressRecord: async () => ({ value: demoAddress, id: 60 }),
-        getName: async () => null,
-        getTextRecord: async () => null,
-      } as const,
+      ens: createEnsMock(),
+      avatars: noAvatars,
       fetchFn: async () => mockResponse({ data: { domains: [] } }),
     });
 
@@ -64,17 +277,21 @@ describe('ENS service collector', () => {
 });
 
 describe('Farcaster service collector', () => {
-  let originalKey: string | undefined;
+  const envKeys = ['NEYNAR_API_KEY', 'FARCASTER_HUB_URL', 'FARCASTER_DATA_SOURCE'] as const;
+  let originalEnv: Record<string, string | undefined> = {};
 
   beforeEach(() => {
-    originalKey = process.env.NEYNAR_API_KEY;
+    originalEnv = Object.fromEntries(envKeys.map((key) => [key, process.env[key]]));
+    for (const key of envKeys) delete process.env[key];
   });
 
   afterEach(() => {
-    if (originalKey === undefined) {
-      delete process.env.NEYNAR_API_KEY;
-    } else {
-      process.env.NEYNAR_API_KEY = originalKey;
+    for (const key of envKeys) {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = originalEnv[key];
+      }
     }
   });
 
@@ -98,9 +315,7 @@ describe('Farcaster service collector', () => {
       });
 
     const handler = createFarcasterHandler({
-      ensClient: {
-        getAddressRecord: async () => ({ value: demoAddress, id: 60 }),
-      } as const,
+      ens: createEnsMock(),
       fetchFn,
     });
 
@@ -115,13 +330,94 @@ describe('Farcaster service collector', () => {
     assert.ok(payload.followerCount >= 0);
   });
 
+  it('returns every account for the address with the custody account as primary', async () => {
+    process.env.NEYNAR_API_KEY = 'test-key';
+
+    const fetchFn = async () =>
+      mockResponse({
+        [demoAddress.toLowerCase()]: [
+          { fid: 20, username: 'popular', follower_count: 5000, custody_address: '0x0000000000000000000000000000000000000001' },
+          { fid: 30, username: 'owner', follower_count: 10, custody_address: demoAddress.toLowerCase() },
+          { fid: 10, username: 'early', follower_count: 10, custody_address: '0x0000000000000000000000000000000000000002' },
+          { fid: 20, username: 'popular', follower_count: 5000 },
+        ],
+      });
+
+    const handler = createFarcasterHandler({
+      ens: createEnsMock(),
+      fetchFn,
+    });
+
+    const { req, res } = createMocks({ method: 'GET', query: { address: demoAddress } });
+    await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+
+    assert.equal(res._getStatusCode(), 200);
+    const payload = res._getJSONData();
+    assert.equal(payload.fid, 30);
+    assert.equal(payload.relationship, 'custody');
+    assert.deepEqual(
+      payload.accounts.map((account: { fid: number; relationship: string }) => [account.fid, account.relationship]),
+      [[30, 'custody'], [20, 'verified'], [10, 'verified']],
+    );
+  });
+
+  it('builds the same result from a Farcaster hub when no Neynar key is set', async () => {
+    process.env.FARCASTER_HUB_URL = 'http://hub.test:2281/';
+    const requested: string[] = [];
+    const messages = (bodyKey: string, bodies: unknown[]) => ({ messages: bodies.map((body) => ({ data: { [bodyKey]: body } })) });
+
+    const fetchFn = async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      requested.push(url.pathname);
+      switch (url.pathname) {
+        case '/v1/onChainIdRegistryEventByAddress':
+          return mockResponse({ fid: 42, blockTimestamp: 1700000000, idRegisterEventBody: { to: demoAddress.toLowerCase() } });
+        case '/v1/userDataByFid':
+          return mockResponse(messages('userDataBody', [
+            { type: 'USER_DATA_TYPE_USERNAME', value: 'hubuser' },
+            { type: 'USER_DATA_TYPE_DISPLAY', value: 'Hub User' },
+            { type: 'USER_DATA_TYPE_BIO', value: 'runs a hub' },
+          ]));
+        case '/v1/verificationsByFid':
+          return mockResponse(messages('verificationAddAddressBody', [{ address: demoAddress, protocol: 'PROTOCOL_ETHEREUM' }]));
+        case '/v1/linksByTargetFid':
+          return url.searchParams.get('pageToken')
+            ? mockResponse({ ...messages('linkBody', [{}]), nextPageToken: '' })
+            : mockResponse({ ...messages('linkBody', [{}, {}]), nextPageToken: 'next' });
+        default:
+          return mockResponse(messages('linkBody', [{}]));
+      }
+    };
+
+    const handler = createFarcasterHandler({
+      ens: createEnsMock(),
+      fetchFn: fetchFn as typeof fetch,
+    });
+
+    const { req, res } = createMocks({ method: 'GET', query: { address: demoAddress } });
+    await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+
+    assert.equal(res._getStatusCode(), 200);
+    const payload = res._getJSONData();
+    assert.equal(payload.source, 'hub');
+    assert.equal(payload.fid, 42);
+    assert.equal(payload.username, 'hubuser');
+    assert.equal(payload.displayName, 'Hub User');
+    assert.equal(payload.bio, 'runs a hub');
+    assert.equal(payload.relationship, 'custody');
+    assert.equal(payload.followerCount, 3);
+    assert.equal(payload.followingCount, 1);
+    assert.equal(payload.createdAt, '2023-11-14T22:13:20.000Z');
+    assert.deepEqual(payload.verifiedAddresses.ethAddresses, [demoAddress]);
+    assert.equal(payload.neynarScore, undefined);
+    assert.ok(requested.every((path) => path.startsWith('/v1/')));
+  });
+
   it('surfaces a configuration error when the API key is missing', async () => {
     delete process.env.NEYNAR_API_KEY;
 
     const handler = createFarcasterHandler({
-      ensClient: {
-        getAddressRecord: async () => ({ value: demoAddress, id: 60 }),
-      } as const,
+      ens: createEnsMock(),
       fetchFn: async () => mockResponse({}, 401),
     });
 
@@ -140,10 +436,8 @@ describe('Alchemy service collector', () => {
     const fetchFn = async () => mockResponse({ error: 'Unauthorized' }, 401);
 
     const handler = createAlchemyHandler({
-      ensClient: {
-        getAddressRecord: async () => ({ value: demoAddress, id: 60 }),
-      } as const,
-      fetchFn,
+      ens: createEnsMock(),
+      inventory: createAlchemyInventory({ fetchFn, cache: createSubresourceCache({ store: noStore }) }),
     });
 
     const { req, res } = createMocks({ method: 'GET', query: { address: demoAddress } });
@@ -177,9 +471,7 @@ describe('DeBank service collector', () => {
     delete process.env.DEBANK_API_KEY;
 
     const handler = createDebankHandler({
-      ensClient: {
-        getAddressRecord: async () => ({ value: demoAddress, id: 60 }),
-      } as const,
+      ens: createEnsMock(),
       fetchFn: async () => mockResponse({}, 500),
     });
 
@@ -218,9 +510,7 @@ describe('DeBank service collector', () => {
     };
 
     const handler = createDebankHandler({
-      ensClient: {
-        getAddressRecord: async () => ({ value: demoAddress, id: 60 }),
-      } as const,
+      ens: createEnsMock(),
       fetchFn,
     });
 
@@ -273,7 +563,7 @@ describe('Decentraland service collector', () => {
 describe('Gitcoin Passport service collector', () => {
   it('returns educational info when no API key', async () => {
     delete process.env.GITCOIN_PASSPORT_API_KEY;
-    const handler = createGitcoinPassportHandler({ fetchFn: async () => mockResponse({}) });
+    const handler = createGitcoinPassportHandler({ ens: createEnsMock(), fetchFn: async () => mockResponse({}) });
 
     const { req, res } = createMocks({ method: 'GET', query: { address: demoAddress } });
     await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
@@ -295,7 +585,7 @@ describe('Icebreaker service collector', () => {
       }]
     });
 
-    const handler = createIcebreakerHandler({ fetchFn });
+    const handler = createIcebreakerHandler({ fetchFn, ens: createEnsMock() });
     const { req, res } = createMocks({ method: 'GET', query: { address: demoAddress } });
     await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
 
@@ -303,6 +593,25 @@ describe('Icebreaker service collector', () => {
     const payload = res._getJSONData();
     assert.equal(payload.displayName, 'Icebreaker User');
   });
+
+  it('falls back to the verified primary name when the address has no profile', async () => {
+    const requested: string[] = [];
+    const fetchFn = (async (input: RequestInfo | URL) => {
+      const url = String(input);
+      requested.push(url.replace('https://app.icebreaker.xyz/api/v1/', ''));
+      if (url.includes('/ens/')) {
+        return mockResponse({ profiles: [{ profileID: '456', displayName: 'ENS User', channels: [] }] });
+      }
+      return mockResponse({ profiles: [] });
+    }) as typeof fetch;
+
+    const handler = createIcebreakerHandler({ fetchFn, ens: createEnsMock('demo.eth') });
+    const { req, res } = createMocks({ method: 'GET', query: { address: demoAddress } });
+    await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+
+    assert.equal(res._getJSONData().displayName, 'ENS User');
+    assert.deepEqual(requested, [`eth/${demoAddress}`, 'ens/demo.eth']);
+  });
 });
 
 describe('OpenSea service collector', () => {
@@ -323,11 +632,11 @@ describe('OpenSea service collector', () => {
   it('returns OPENSEA_API_KEY_REQUIRED when key is missing', async () => {
     delete process.env.OPENSEA_API_KEY;
 
+    const fetchFn = async () => mockResponse({}, 500);
     const handler = createOpenseaHandler({
-      ensClient: {
-        getAddressRecord: async () => ({ value: demoAddress, id: 60 }),
-      } as const,
-      fetchFn: async () => mockResponse({}, 500),
+      ens: createEnsMock(),
+      fetchFn,
+      prices: createOpenSeaPrices({ fetchFn, cache: createSubresourceCache({ store: noStore }) }),
     });
 
     const { req, res } = createMocks({ method: 'GET', query: { address: demoAddress } });
@@ -357,10 +666,9 @@ describe('OpenSea service collector', () => {
       });
 
     const handler = createOpenseaHandler({
-      ensClient: {
-        getAddressRecord: async () => ({ value: demoAddress, id: 60 }),
-      } as const,
+      ens: createEnsMock(),
       fetchFn,
+      prices: createOpenSeaPrices({ fetchFn, cache: createSubresourceCache({ store: noStore }) }),
     });
 
     const { req, res } = createMocks({ method: 'GET', query: { address: demoAddress } });
@@ -375,6 +683,131 @@ describe('OpenSea service collector', () => {
     assert.equal(payload.topValuedNFTs[0].name, 'Example NFT');
     assert.equal(payload.topValuedNFTs[0].collection, 'Example Collection');
   });
+
+  it('values NFTs at their collection floor using stats shared across wallets', async () => {
+    process.env.OPENSEA_API_KEY = 'test-key';
+
+    const rows = new Map<string, CachedSubresource>();
+    const sharedStore: SubresourceStore = {
+      get: async (service, resource, key) => rows.get(`${service}:${resource}:${key}`) ?? null,
+      set: async (service, resource, key, entry) => {
+        rows.set(`${service}:${resource}:${key}`, entry);
+      },
+    };
+    const statsBySlug: Record<string, unknown> = {
+      'cheap-cats': { total: { floor_price: 0.1, floor_price_symbol: 'ETH' }, intervals: [{ interval: 'seven_day', volume: 12.5, sales: 40 }] },
+      'blue-chips': { total: { floor_price: 2, floor_price_symbol: 'WETH' }, intervals: [] },
+    };
+    const requested: string[] = [];
+    const fetchFn = (async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      requested.push(url.pathname);
+      const stats = /\/collections\/([^/]+)\/stats$/.exec(url.pathname);
+      if (stats) return mockResponse(statsBySlug[stats[1]] ?? {}, statsBySlug[stats[1]] ? 200 : 404);
+      if (url.pathname.includes('/payment_token/')) return mockResponse({ symbol: 'ETH', usd_price: 3000 });
+      return mockResponse({
+        nfts: [
+          { name: 'Cat #1', identifier: '1', collection: 'cheap-cats' },
+          { name: 'Cat #2', identifier: '2', collection: 'cheap-cats' },
+          { name: 'Chip #7', identifier: '7', collection: 'blue-chips' },
+          { name: 'Mystery', identifier: '9', collection: 'unlisted' },
+        ],
+      });
+    }) as typeof fetch;
+    const prices = createOpenSeaPrices({ fetchFn, cache: createSubresourceCache({ store: sharedStore }) });
+    const handler = createOpenseaHandler({ ens: createEnsMock(), fetchFn, prices });
+
+    const first = createMocks({ method: 'GET', query: { address: demoAddress } });
+    await handler(first.req as unknown as NextApiRequest, first.res as unknown as NextApiResponse);
+    const payload = first.res._getJSONData();
+
+    assert.equal(payload.marketStats.totalFloorValue, 2.2);
+    assert.equal(payload.portfolioSummary.totalValue, 2.2);
+    assert.equal(payload.portfolioSummary.totalValueUsd, 6600);
+    assert.deepEqual(payload.topValuedNFTs.map(({ name }: { name: string }) => name), ['Chip #7', 'Cat #1', 'Cat #2', 'Mystery']);
+    assert.equal(payload.topValuedNFTs[0].estimatedValueUsd, 6000);
+    assert.equal(payload.complete, true);
+    // `unlisted` has no stats, so the value is understated.
+    assert.equal(payload.partial, true);
+    assert.deepEqual(payload.marketStats.topCollectionsByValue[1], {
+      name: 'cheap-cats', count: 2, floorPrice: 0.1, totalValue: 0.2, sevenDayVolume: 12.5,
+    });
+
+    const second = createMocks({ method: 'GET', query: { address: '0x0000000000000000000000000000000000000001' } });
+    await handler(second.req as unknown as NextApiRequest, second.res as unknown as NextApiResponse);
+
+    assert.equal(requested.filter((path) => path.endsWith('/cheap-cats/stats')).length, 1);
+    assert.equal(requested.filter((path) => path.includes('/payment_token/')).length, 1);
+  });
+
+  it('pages through the wallet and flags wallets beyond the page bound', async () => {
+    process.env.OPENSEA_API_KEY = 'test-key';
+
+    const cursors: Array<string | null> = [];
+    const fetchFn = (async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      if (url.pathname.endsWith('/stats')) return mockResponse({ total: { floor_price: 1 }, intervals: [] });
+      if (url.pathname.includes('/payment_token/')) return mockResponse({ usd_price: 2000 });
+      const cursor = url.searchParams.get('next');
+      cursors.push(cursor);
+      const page = Number(cursor ?? 0);
+      return mockResponse({ nfts: [{ name: `NFT ${page}`, identifier: String(page), collection: 'endless' }], next: String(page + 1) });
+    }) as typeof fetch;
+    const handler = createOpenseaHandler({
+      ens: createEnsMock(),
+      fetchFn,
+      prices: createOpenSeaPrices({ fetchFn, cache: createSubresourceCache({ store: noStore }) }),
+    });
+
+    const { req, res } = createMocks({ method: 'GET', query: { address: demoAddress } });
+    await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+    const payload = res._getJSONData();
+
+    assert.deepEqual(cursors.slice(0, 3), [null, '1', '2']);
+    assert.equal(cursors.length, 10);
+    assert.equal(payload.marketStats.totalNFTs, 10);
+    assert.equal(payload.portfolioSummary.totalValue, 10);
+    assert.equal(payload.complete, false);
+    assert.equal(payload.partial, false);
+  });
+
+  it('prices a bounded number of collections a few at a time', async () => {
+    process.env.OPENSEA_API_KEY = 'test-key';
+
+    // 60 collections; `c-58` and `c-59` hold two NFTs each, so they are priced first.
+    const nfts = Array.from({ length: 60 }, (_, index) => ({ name: `NFT ${index}`, identifier: String(index), collection: `c-${index}` }));
+    nfts.push({ name: 'Extra', identifier: '100', collection: 'c-58' }, { name: 'Extra', identifier: '101', collection: 'c-59' });
+    const fetchFn = (async () => mockResponse({ nfts })) as typeof fetch;
+    const fetched = { fetchedAt: new Date().toISOString(), expiresAt: new Date().toISOString(), stale: false };
+    const priced: string[] = [];
+    let running = 0;
+    let maxRunning = 0;
+    const handler = createOpenseaHandler({
+      ens: createEnsMock(),
+      fetchFn,
+      prices: {
+        getCollectionStats: async (slug) => {
+          priced.push(slug);
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          running--;
+          return { data: { slug, floorPrice: 1, sevenDayVolume: null, sevenDaySales: null }, ...fetched };
+        },
+        getEthUsdPrice: async () => ({ data: 2000, ...fetched }),
+      },
+    });
+
+    const { req, res } = createMocks({ method: 'GET', query: { address: demoAddress } });
+    await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+    const payload = res._getJSONData();
+
+    assert.equal(priced.length, 50);
+    assert.deepEqual(priced.slice(0, 2), ['c-58', 'c-59']);
+    assert.ok(maxRunning <= 5, `${maxRunning} stats requests ran at once`);
+    assert.equal(payload.marketStats.totalNFTs, 62);
+    assert.equal(payload.partial, true);
+  });
 });
 
 describe('XMTP service collector', () => {
@@ -382,14 +815,13 @@ describe('XMTP service collector', () => {
     const xmtpMock = {
       getInboxIdForIdentifier: async () => 'inbox-123',
       Client: {
-        inboxStateFromInboxIds: async () => [{ inboxId: 'inbox-123', identifiers: [] }]
+        inboxStateFromInboxIds: async () => [{ inboxId: 'inbox-123', identifiers: [] }],
+        canMessage: async () => new Map([[demoAddress.toLowerCase(), true]]),
       }
     };
 
     const handler = createXmtpHandler({
-      ensClient: {
-        getAddressRecord: async () => ({ value: demoAddress, id: 60 }),
-      } as const,
+      ens: createEnsMock(),
       xmtp: xmtpMock as any
     });
 
@@ -400,4 +832,95 @@ describe('XMTP service collector', () => {
     const payload = res._getJSONData();
     assert.equal(payload.inboxId, 'inbox-123');
   });
+
+  it('reports reachability, installations and a compose link', async () => {
+    const xmtpMock = {
+      getInboxIdForIdentifier: async () => 'inbox-123',
+      Client: {
+        inboxStateFromInboxIds: async () => [{
+          inboxId: 'inbox-123',
+          identifiers: [],
+          installations: [
+            { id: 'a', bytes: new Uint8Array(), clientTimestampNs: BigInt(1700000000) * BigInt(1e9) },
+            { id: 'b', bytes: new Uint8Array(), clientTimestampNs: BigInt(1710000000) * BigInt(1e9) },
+          ],
+        }],
+        canMessage: async () => new Map([[demoAddress.toLowerCase(), true]]),
+      }
+    };
+
+    const handler = createXmtpHandler({
+      ens: createEnsMock(),
+      xmtp: xmtpMock as any
+    });
+
+    const { req, res } = createMocks({ method: 'GET', query: { address: demoAddress } });
+    await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+
+    const payload = res._getJSONData();
+    assert.equal(payload.canMessage, true);
+    assert.equal(payload.installationCount, 2);
+    assert.equal(payload.lastInstallationAt, '2024-03-09T16:00:00.000Z');
+    assert.equal(payload.messageUrl, 'https://xmtp.chat/dm/inbox-123');
+  });
+
+  it('names linked Ethereum identities by their verified primary names', async () => {
+    const linked = '0x2222222222222222222222222222222222222222';
+    const spoofed = '0x3333333333333333333333333333333333333333';
+    const primaryNames: Record<string, string> = { [linked]: 'linked.eth', [spoofed]: 'vitalik.eth' };
+    const ens: EnsResolver = {
+      ...createEnsMock(),
+      lookupAddress: async (address) => primaryNames[address.toLowerCase()] ?? null,
+      resolveName: async (name) => (name === 'linked.eth' ? linked : demoAddress),
+    };
+    const xmtpMock = {
+      getInboxIdForIdentifier: async () => 'inbox-123',
+      Client: {
+        inboxStateFromInboxIds: async () => [{
+          inboxId: 'inbox-123',
+          installations: [],
+          identifiers: [
+            { identifier: demoAddress, identifierKind: 0 },
+            { identifier: linked, identifierKind: 0 },
+            { identifier: spoofed, identifierKind: 0 },
+            { identifier: 'passkey-1', identifierKind: 1 },
+          ],
+        }],
+        canMessage: async () => new Map([[demoAddress.toLowerCase(), true]]),
+      }
+    };
+
+    const handler = createXmtpHandler({ ens, xmtp: xmtpMock as any });
+
+    const { req, res } = createMocks({ method: 'GET', query: { address: demoAddress } });
+    await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+
+    assert.deepEqual(res._getJSONData().connectedIdentities, [
+      { identifier: linked, kind: 'ethereum', ensName: 'linked.eth' },
+      { identifier: spoofed, kind: 'ethereum', ensName: null },
+      { identifier: 'passkey-1', kind: 'passkey', ensName: null },
+    ]);
+  });
+
+  it('leaves out the compose link when the address cannot be messaged', async () => {
+    const xmtpMock = {
+      getInboxIdForIdentifier: async () => 'inbox-123',
+      Client: {
+        inboxStateFromInboxIds: async () => [{ inboxId: 'inbox-123', identifiers: [], installations: [] }],
+        canMessage: async () => new Map([[demoAddress.toLowerCase(), false]]),
+      }
+    };
+
+    const handler = createXmtpHandler({
+      ens: createEnsMock(),
+      xmtp: xmtpMock as any
+    });
+
+    const { req, res } = createMocks({ method: 'GET', query: { address: demoAddress } });
+    await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+
+    const payload = res._getJSONData();
+    assert.equal(payload.canMessage, false);
+    assert.equal(payload.messageUrl, null);
+  });
 });